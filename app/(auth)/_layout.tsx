@@ -1,10 +1,61 @@
 import { useAuthStore } from '@/src/stores/auth.store';
-import { COLORS } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { runSync } from '@/src/services/sync.service';
+import {
+  COLORS,
+  SESSION_CHECK_INTERVAL_MS,
+  SYNC_INTERVAL_MS,
+} from '@/src/utils/constants';
 import { Ionicons } from '@expo/vector-icons';
 import { Redirect, Tabs } from 'expo-router';
+import { useEffect } from 'react';
+import { AppState, StyleSheet, View } from 'react-native';
 
 export default function AuthLayout() {
-  const { isAuthenticated, isInitialized } = useAuthStore();
+  const { user, isAuthenticated, isInitialized, checkSession, touchSession } =
+    useAuthStore();
+
+  // Expire the session while the app is open or when it returns from background
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    checkSession();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        checkSession();
+      }
+    });
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [isAuthenticated, checkSession]);
+
+  // Push and pull in the background; runSync does nothing until a server is set
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    runSync();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        runSync();
+      }
+    });
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [isAuthenticated]);
 
   // Wait for auth to be initialized
   if (!isInitialized) {
@@ -17,65 +68,131 @@ export default function AuthLayout() {
   }
 
   return (
-    <Tabs
-      screenOptions={{
-        tabBarActiveTintColor: COLORS.primary,
-        tabBarInactiveTintColor: COLORS.textSecondary,
-        tabBarStyle: {
-          backgroundColor: COLORS.surface,
-          borderTopColor: COLORS.border,
-        },
-        headerStyle: {
-          backgroundColor: COLORS.primary,
-        },
-        headerTintColor: COLORS.surface,
-        headerTitleStyle: {
-          fontWeight: '600',
-        },
+    <View
+      style={styles.container}
+      // Observe every touch as activity without claiming the responder
+      onStartShouldSetResponderCapture={() => {
+        touchSession();
+        return false;
       }}
     >
-      <Tabs.Screen
-        name="index"
-        options={{
-          title: 'Inicio',
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="home" size={size} color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="bluetooth"
-        options={{
-          title: 'Bluetooth',
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="bluetooth" size={size} color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="register"
-        options={{
-          title: 'Registro',
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="add-circle" size={size} color={color} />
-          ),
+      <Tabs
+        screenOptions={{
+          tabBarActiveTintColor: COLORS.primary,
+          tabBarInactiveTintColor: COLORS.textSecondary,
+          tabBarStyle: {
+            backgroundColor: COLORS.surface,
+            borderTopColor: COLORS.border,
+          },
+          headerStyle: {
+            backgroundColor: COLORS.primary,
+          },
+          headerTintColor: COLORS.surface,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
         }}
-      />
-      <Tabs.Screen
-        name="records"
-        options={{
-          title: 'Historial',
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="list" size={size} color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="ble-device"
-        options={{
-          href: null,
-        }}
-      />
-    </Tabs>
+      >
+        <Tabs.Screen
+          name="index"
+          options={{
+            title: 'Inicio',
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="home" size={size} color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="bluetooth"
+          options={{
+            title: 'Bluetooth',
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="bluetooth" size={size} color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="register"
+          options={{
+            title: 'Registro',
+            // Read-only users cannot create records
+            href: hasPermission(user, 'records:create') ? undefined : null,
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="add-circle" size={size} color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="records"
+          options={{
+            title: 'Historial',
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="list" size={size} color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="ble-device"
+          options={{
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="profile"
+          options={{
+            title: 'Mi Perfil',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="users"
+          options={{
+            title: 'Usuarios',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="records/[id]"
+          options={{
+            title: 'Detalle del Registro',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="trash"
+          options={{
+            title: 'Papelera',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="import"
+          options={{
+            title: 'Importar Clientes',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="backup"
+          options={{
+            title: 'Copia de Seguridad',
+            href: null,
+          }}
+        />
+        <Tabs.Screen
+          name="sync"
+          options={{
+            title: 'Sincronización',
+            href: null,
+          }}
+        />
+      </Tabs>
+    </View>
   );
 }
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,286 @@
+import { Button, Card } from '@/src/components/ui';
+import {
+  exportBackup,
+  InvalidBackupError,
+  pickBackupFile,
+  restoreBackup,
+  type InvalidBackupReason,
+} from '@/src/services/backup.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { BackupArchive, RestoreMode } from '@/src/types';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect } from 'expo-router';
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const INVALID_BACKUP_MESSAGES: Record<InvalidBackupReason, string> = {
+  format: 'El archivo seleccionado no es una copia de seguridad válida.',
+  checksum: 'La copia de seguridad está dañada o fue modificada. No se puede restaurar.',
+  version: 'La copia de seguridad fue creada con una versión más reciente de la app. Actualiza la app para restaurarla.',
+};
+
+const RESTORE_MODES: { mode: RestoreMode; label: string; description: string }[] = [
+  {
+    mode: 'merge',
+    label: 'Combinar',
+    description:
+      'Agrega los registros de la copia. Si un RUC existe en ambos lados se conserva la versión editada más recientemente.',
+  },
+  {
+    mode: 'replace',
+    label: 'Reemplazar',
+    description:
+      'Borra los registros, su historial y la configuración actuales y los reemplaza por los de la copia.',
+  },
+];
+
+export default function BackupScreen() {
+  const { user } = useAuthStore();
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPicking, setIsPicking] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (!hasPermission(user, 'settings:manage')) {
+    return <Redirect href="/(auth)" />;
+  }
+
+  const countRows = (backup: BackupArchive, table: keyof BackupArchive['tables']) =>
+    backup.tables[table]?.length ?? 0;
+
+  const formatDate = (dateString: string): string => {
+    try {
+      return new Date(dateString).toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await exportBackup();
+      Alert.alert(
+        'Copia creada',
+        `Se guardaron ${countRows(backup, 'records')} registros y ${countRows(backup, 'users')} usuarios.`,
+      );
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Error', 'No se pudo crear la copia de seguridad');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    setIsPicking(true);
+    try {
+      const picked = await pickBackupFile();
+      if (picked) {
+        setArchive(picked);
+      }
+    } catch (error) {
+      if (error instanceof InvalidBackupError) {
+        Alert.alert('Copia no válida', INVALID_BACKUP_MESSAGES[error.reason]);
+        return;
+      }
+      console.error('Error reading backup file:', error);
+      Alert.alert('Error', 'No se pudo leer el archivo');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const runRestore = async () => {
+    if (!user || !archive) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const result = await restoreBackup(archive, mode, user.id);
+
+      const lines = [`${result.recordsRestored} registros restaurados.`];
+      if (result.usersCreated > 0) {
+        lines.push(
+          `${result.usersCreated} usuarios nuevos no tienen contraseña: restablécela desde Gestionar Usuarios para que puedan ingresar.`,
+        );
+      }
+
+      Alert.alert('Restauración completada', lines.join('\n\n'));
+      setArchive(null);
+    } catch (error) {
+      if (error instanceof InvalidBackupError) {
+        Alert.alert('Copia no válida', INVALID_BACKUP_MESSAGES[error.reason]);
+        return;
+      }
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'No se pudo restaurar la copia. Los datos actuales no se modificaron.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    Alert.alert(
+      'Restaurar Copia',
+      mode === 'replace'
+        ? 'Los registros, el historial y la configuración actuales se borrarán y se reemplazarán por los de la copia. Esta acción no se puede deshacer.'
+        : 'Los registros de la copia se combinarán con los actuales.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Restaurar',
+          style: mode === 'replace' ? 'destructive' : 'default',
+          onPress: runRestore,
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Crear Copia</Text>
+        <Text style={styles.helpText}>
+          Guarda en un solo archivo los registros, su historial de cambios, los
+          usuarios (sin contraseñas) y la configuración. Compártelo o guárdalo fuera
+          del dispositivo.
+        </Text>
+        <Button
+          title="Crear y compartir copia"
+          onPress={handleExport}
+          loading={isExporting}
+        />
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Restaurar Copia</Text>
+        <Button
+          title={archive ? 'Elegir otro archivo' : 'Seleccionar archivo'}
+          onPress={handlePickFile}
+          loading={isPicking}
+          variant="outline"
+        />
+
+        {archive && (
+          <>
+            <View style={styles.summary}>
+              <View style={styles.summaryRow}>
+                <Ionicons name="calendar-outline" size={16} color={COLORS.textSecondary} />
+                <Text style={styles.summaryText}>
+                  Creada: {formatDate(archive.createdAt)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Ionicons name="document-text-outline" size={16} color={COLORS.textSecondary} />
+                <Text style={styles.summaryText}>
+                  {countRows(archive, 'records')} registros, {countRows(archive, 'users')} usuarios
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Ionicons name="shield-checkmark-outline" size={16} color={COLORS.success} />
+                <Text style={styles.summaryText}>Integridad verificada</Text>
+              </View>
+            </View>
+
+            <View style={styles.chips}>
+              {RESTORE_MODES.map((option) => {
+                const selected = mode === option.mode;
+                return (
+                  <TouchableOpacity
+                    key={option.mode}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMode(option.mode)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.helpText}>
+              {RESTORE_MODES.find((option) => option.mode === mode)?.description}
+            </Text>
+
+            <Button
+              title="Restaurar"
+              onPress={handleRestore}
+              loading={isRestoring}
+              variant={mode === 'replace' ? 'danger' : 'primary'}
+            />
+          </>
+        )}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  helpText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  summary: {
+    marginVertical: SPACING.md,
+    gap: SPACING.xs,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  summaryText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+    fontWeight: '600',
+  },
+});
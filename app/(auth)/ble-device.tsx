@@ -11,6 +11,8 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Subscription } from 'react-native-ble-plx';
 import { Button, Card } from '@/src/components/ui';
+import { useAuthStore } from '@/src/stores/auth.store';
+import { hasPermission } from '@/src/utils/permissions';
 import { COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
 import {
   connectToESP32,
@@ -30,6 +32,8 @@ export default function BLEDeviceScreen() {
     deviceId: string;
     deviceName: string;
   }>();
+  const { user } = useAuthStore();
+  const canWrite = hasPermission(user, 'bluetooth:write');
 
   // State
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
@@ -164,7 +168,7 @@ export default function BLEDeviceScreen() {
   };
 
   const handleSendMessage = async () => {
-    if (!deviceId || status !== 'connected' || !inputMessage.trim()) return;
+    if (!canWrite || !deviceId || status !== 'connected' || !inputMessage.trim()) return;
 
     const msg = inputMessage.trim();
     setLog(`Enviando: "${msg}"...`);
@@ -262,21 +266,27 @@ export default function BLEDeviceScreen() {
               style={styles.readButton}
             />
 
-            <View style={styles.inputRow}>
-              <TextInput
-                style={styles.input}
-                value={inputMessage}
-                onChangeText={setInputMessage}
-                placeholder="Escribe un mensaje..."
-                placeholderTextColor={COLORS.textLight}
-              />
-              <Button
-                title="Enviar"
-                onPress={handleSendMessage}
-                size="small"
-                disabled={!inputMessage.trim()}
-              />
-            </View>
+            {canWrite ? (
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={styles.input}
+                  value={inputMessage}
+                  onChangeText={setInputMessage}
+                  placeholder="Escribe un mensaje..."
+                  placeholderTextColor={COLORS.textLight}
+                />
+                <Button
+                  title="Enviar"
+                  onPress={handleSendMessage}
+                  size="small"
+                  disabled={!inputMessage.trim()}
+                />
+              </View>
+            ) : (
+              <Text style={styles.readOnlyText}>
+                Tu rol no permite enviar datos al dispositivo
+              </Text>
+            )}
           </Card>
         )}
 
@@ -397,6 +407,11 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     backgroundColor: COLORS.background,
   },
+  readOnlyText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
   logContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,461 @@
+import { Button, Card } from '@/src/components/ui';
+import { importRecords } from '@/src/services/database.service';
+import {
+  getExistingRucs,
+  guessColumnMapping,
+  hasHeaderRow,
+  pickImportFile,
+  validateImportRows,
+} from '@/src/services/import.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type {
+  ImportColumnMapping,
+  ImportDuplicateMode,
+  ImportFile,
+  ImportRow,
+} from '@/src/types';
+import {
+  BORDER_RADIUS,
+  COLORS,
+  FONT_SIZES,
+  IMPORT_PREVIEW_LIMIT,
+  SPACING,
+} from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, router } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+const MAPPED_FIELDS: { field: keyof ImportColumnMapping; label: string }[] = [
+  { field: 'ruc', label: 'Columna del RUC' },
+  { field: 'clientName', label: 'Columna del cliente' },
+];
+
+export default function ImportScreen() {
+  const { user } = useAuthStore();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({ ruc: 0, clientName: 1 });
+  const [existingRucs, setExistingRucs] = useState<Map<string, number>>(new Map());
+  const [duplicateMode, setDuplicateMode] = useState<ImportDuplicateMode>('skip');
+  const [isPicking, setIsPicking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const canUpdate = hasPermission(user, 'records:edit');
+
+  const rows = useMemo<ImportRow[]>(() => {
+    if (!file) {
+      return [];
+    }
+    const dataRows = hasHeader ? file.rows.slice(1) : file.rows;
+    return validateImportRows(dataRows, mapping, hasHeader ? 2 : 1, existingRucs);
+  }, [file, hasHeader, mapping, existingRucs]);
+
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const newCount = validRows.filter((row) => row.duplicateOfId === null).length;
+  const duplicateCount = validRows.length - newCount;
+
+  if (!hasPermission(user, 'records:create')) {
+    return <Redirect href="/(auth)/records" />;
+  }
+
+  const columnCount = file ? Math.max(...file.rows.map((cells) => cells.length)) : 0;
+  const columnLabel = (index: number): string => {
+    const header = hasHeader ? file?.rows[0]?.[index]?.trim() : '';
+    return header || `Columna ${index + 1}`;
+  };
+
+  const handlePickFile = async () => {
+    if (!user) {
+      return;
+    }
+
+    setIsPicking(true);
+    try {
+      const picked = await pickImportFile();
+      if (!picked) {
+        return;
+      }
+
+      if (picked.rows.length === 0) {
+        Alert.alert('Archivo vacío', 'El archivo seleccionado no contiene filas.');
+        return;
+      }
+
+      const header = hasHeaderRow(picked.rows);
+      const existing = await getExistingRucs(user.id);
+
+      setFile(picked);
+      setHasHeader(header);
+      setMapping(guessColumnMapping(picked.rows[0]));
+      setExistingRucs(existing);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Error', 'No se pudo leer el archivo');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await importRecords(user.id, validRows, duplicateMode);
+
+      const lines = [`${result.created} registros creados`];
+      if (result.updated > 0) {
+        lines.push(`${result.updated} registros actualizados`);
+      }
+      if (result.skipped > 0) {
+        lines.push(`${result.skipped} duplicados omitidos`);
+      }
+      if (invalidRows.length > 0) {
+        lines.push(`${invalidRows.length} filas con errores no importadas`);
+      }
+
+      Alert.alert('Importación completada', lines.join('\n'), [
+        { text: 'Ver Historial', onPress: () => router.replace('/(auth)/records') },
+      ]);
+      setFile(null);
+    } catch (error) {
+      console.error('Error importing records:', error);
+      Alert.alert('Error', 'No se pudo completar la importación. No se guardó ningún registro.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderRow = (row: ImportRow) => {
+    const invalid = row.errors.length > 0;
+    return (
+      <View key={row.line} style={styles.rowItem}>
+        <Ionicons
+          name={invalid ? 'close-circle' : row.duplicateOfId ? 'copy-outline' : 'checkmark-circle'}
+          size={18}
+          color={invalid ? COLORS.error : row.duplicateOfId ? COLORS.warning : COLORS.success}
+        />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            Fila {row.line}: {row.clientName || '(sin nombre)'}
+          </Text>
+          <Text style={styles.rowSubtitle}>RUC: {row.ruc || '(vacío)'}</Text>
+          {row.errors.map((error) => (
+            <Text key={error} style={styles.rowError}>
+              {error}
+            </Text>
+          ))}
+          {!invalid && row.duplicateOfId !== null && (
+            <Text style={styles.rowDuplicate}>
+              Ya registrado (#{row.duplicateOfId})
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Archivo</Text>
+        <Text style={styles.helpText}>
+          Selecciona un archivo CSV con una columna de RUC y otra con el nombre
+          del cliente. Puedes exportarlo desde Excel como &quot;CSV (delimitado por
+          comas)&quot;.
+        </Text>
+        {file && (
+          <View style={styles.fileInfo}>
+            <Ionicons name="document-text-outline" size={20} color={COLORS.primary} />
+            <Text style={styles.fileName} numberOfLines={1}>
+              {file.name}
+            </Text>
+            <Text style={styles.fileRows}>{rows.length} filas</Text>
+          </View>
+        )}
+        <Button
+          title={file ? 'Elegir otro archivo' : 'Seleccionar archivo CSV'}
+          onPress={handlePickFile}
+          loading={isPicking}
+          variant={file ? 'outline' : 'primary'}
+        />
+      </Card>
+
+      {file && (
+        <>
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Columnas</Text>
+            <View style={styles.settingRow}>
+              <Text style={styles.settingText}>La primera fila es encabezado</Text>
+              <Switch
+                value={hasHeader}
+                onValueChange={setHasHeader}
+                trackColor={{ false: COLORS.border, true: COLORS.primary }}
+              />
+            </View>
+            {MAPPED_FIELDS.map(({ field, label }) => (
+              <View key={field}>
+                <Text style={styles.label}>{label}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={styles.chips}>
+                    {Array.from({ length: columnCount }, (_, index) => {
+                      const selected = mapping[field] === index;
+                      return (
+                        <TouchableOpacity
+                          key={index}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setMapping((prev) => ({ ...prev, [field]: index }))}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                            {columnLabel(index)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </ScrollView>
+              </View>
+            ))}
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Vista Previa</Text>
+            <View style={styles.summary}>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: COLORS.success }]}>{newCount}</Text>
+                <Text style={styles.summaryLabel}>Nuevos</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: COLORS.warning }]}>
+                  {duplicateCount}
+                </Text>
+                <Text style={styles.summaryLabel}>Ya registrados</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: COLORS.error }]}>
+                  {invalidRows.length}
+                </Text>
+                <Text style={styles.summaryLabel}>Con errores</Text>
+              </View>
+            </View>
+
+            {duplicateCount > 0 && (
+              <>
+                <Text style={styles.label}>RUC ya registrados</Text>
+                <View style={styles.chips}>
+                  <TouchableOpacity
+                    style={[styles.chip, duplicateMode === 'skip' && styles.chipSelected]}
+                    onPress={() => setDuplicateMode('skip')}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        duplicateMode === 'skip' && styles.chipTextSelected,
+                      ]}
+                    >
+                      Omitir
+                    </Text>
+                  </TouchableOpacity>
+                  {canUpdate && (
+                    <TouchableOpacity
+                      style={[styles.chip, duplicateMode === 'update' && styles.chipSelected]}
+                      onPress={() => setDuplicateMode('update')}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          duplicateMode === 'update' && styles.chipTextSelected,
+                        ]}
+                      >
+                        Actualizar nombre
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </>
+            )}
+
+            <Button
+              title={`Importar ${validRows.length} ${validRows.length === 1 ? 'fila' : 'filas'}`}
+              onPress={handleImport}
+              loading={isImporting}
+              disabled={validRows.length === 0}
+              style={styles.importButton}
+            />
+          </Card>
+
+          {invalidRows.length > 0 && (
+            <Card style={styles.card}>
+              <Text style={styles.sectionTitle}>Filas con Errores</Text>
+              {invalidRows.slice(0, IMPORT_PREVIEW_LIMIT).map(renderRow)}
+              {invalidRows.length > IMPORT_PREVIEW_LIMIT && (
+                <Text style={styles.moreText}>
+                  y {invalidRows.length - IMPORT_PREVIEW_LIMIT} más
+                </Text>
+              )}
+            </Card>
+          )}
+
+          {validRows.length > 0 && (
+            <Card style={styles.card}>
+              <Text style={styles.sectionTitle}>Filas Válidas</Text>
+              {validRows.slice(0, IMPORT_PREVIEW_LIMIT).map(renderRow)}
+              {validRows.length > IMPORT_PREVIEW_LIMIT && (
+                <Text style={styles.moreText}>
+                  y {validRows.length - IMPORT_PREVIEW_LIMIT} más
+                </Text>
+              )}
+            </Card>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  helpText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  fileInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  fileRows: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.md,
+  },
+  settingText: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '500',
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+    fontWeight: '600',
+  },
+  summary: {
+    flexDirection: 'row',
+    marginBottom: SPACING.md,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  importButton: {
+    marginTop: SPACING.sm,
+  },
+  rowItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  rowSubtitle: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  rowError: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  rowDuplicate: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+    marginTop: SPACING.xs,
+  },
+  moreText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
+});
@@ -1,35 +1,99 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   Alert,
+  Switch,
+  TouchableOpacity,
 } from 'react-native';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Button, Card } from '@/src/components/ui';
 import { useAuthStore } from '@/src/stores/auth.store';
 import { useBluetoothStore } from '@/src/stores/bluetooth.store';
-import { getRecordsCount } from '@/src/services/database.service';
-import { COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
+import {
+  getRecordsCount,
+  getTrashRetentionDays,
+  isSelfRegistrationEnabled,
+  setSelfRegistrationEnabled,
+  setTrashRetentionDays,
+} from '@/src/services/database.service';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  ROLE_LABELS,
+  BORDER_RADIUS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+} from '@/src/utils/constants';
+import { getRecordOwnerScope, hasPermission } from '@/src/utils/permissions';
 
 export default function HomeScreen() {
   const { user, logout } = useAuthStore();
   const { selectedDevice } = useBluetoothStore();
   const [recordsCount, setRecordsCount] = useState(0);
+  const [registrationEnabled, setRegistrationEnabled] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const canManageSettings = hasPermission(user, 'settings:manage');
+  const canImport = hasPermission(user, 'records:create');
 
-  useEffect(() => {
-    loadRecordsCount();
-  }, []);
+  // Reloads when the user or their role (and so the owner scope) changes
+  const loadRecordsCount = useCallback(async () => {
+    if (!user) {
+      return;
+    }
 
-  const loadRecordsCount = async () => {
     try {
-      const count = await getRecordsCount();
+      const count = await getRecordsCount(getRecordOwnerScope(user));
       setRecordsCount(count);
     } catch (error) {
       console.error('Error loading records count:', error);
     }
+  }, [user]);
+
+  useEffect(() => {
+    loadRecordsCount();
+  }, [loadRecordsCount]);
+
+  useEffect(() => {
+    if (canManageSettings) {
+      isSelfRegistrationEnabled()
+        .then(setRegistrationEnabled)
+        .catch((error) => {
+          console.error('Error loading registration setting:', error);
+        });
+      getTrashRetentionDays()
+        .then(setRetentionDays)
+        .catch((error) => {
+          console.error('Error loading trash retention setting:', error);
+        });
+    }
+  }, [canManageSettings]);
+
+  const handleToggleRegistration = async (enabled: boolean) => {
+    setRegistrationEnabled(enabled);
+    try {
+      await setSelfRegistrationEnabled(enabled);
+    } catch (error) {
+      console.error('Error saving registration setting:', error);
+      setRegistrationEnabled(!enabled);
+      Alert.alert('Error', 'No se pudo guardar la configuración');
+    }
+  };
+
+  const handleChangeRetention = async (days: number) => {
+    const previous = retentionDays;
+    setRetentionDays(days);
+    try {
+      await setTrashRetentionDays(days);
+    } catch (error) {
+      console.error('Error saving trash retention setting:', error);
+      setRetentionDays(previous);
+      Alert.alert('Error', 'No se pudo guardar la configuración');
+    }
   };
 
   const handleLogout = () => {
@@ -59,6 +123,9 @@ export default function HomeScreen() {
           <View style={styles.welcomeText}>
             <Text style={styles.welcomeTitle}>Bienvenido</Text>
             <Text style={styles.username}>{user?.username || 'Usuario'}</Text>
+            {user && (
+              <Text style={styles.roleText}>{ROLE_LABELS[user.role]}</Text>
+            )}
           </View>
         </View>
       </Card>
@@ -102,6 +169,17 @@ export default function HomeScreen() {
         />
       </Card>
 
+      {canImport && (
+        <Card style={styles.actionCard}>
+          <Button
+            title="Importar desde CSV"
+            onPress={() => router.push('/(auth)/import')}
+            variant="outline"
+            style={styles.actionButton}
+          />
+        </Card>
+      )}
+
       <Card style={styles.actionCard}>
         <Button
           title="Ver Historial"
@@ -111,6 +189,101 @@ export default function HomeScreen() {
         />
       </Card>
 
+      <Card style={styles.actionCard}>
+        <Button
+          title="Sincronización"
+          onPress={() => router.push('/(auth)/sync')}
+          variant="outline"
+          style={styles.actionButton}
+        />
+      </Card>
+
+      <Card style={styles.actionCard}>
+        <Button
+          title="Mi Perfil"
+          onPress={() => router.push('/(auth)/profile')}
+          variant="outline"
+          style={styles.actionButton}
+        />
+      </Card>
+
+      {/* Admin Settings */}
+      {canManageSettings && (
+        <>
+          <Text style={styles.sectionTitle}>Administración</Text>
+
+          <Card style={styles.actionCard}>
+            <Button
+              title="Gestionar Usuarios"
+              onPress={() => router.push('/(auth)/users')}
+              variant="outline"
+              style={styles.actionButton}
+            />
+          </Card>
+
+          <Card style={styles.actionCard}>
+            <Button
+              title="Copia de Seguridad"
+              onPress={() => router.push('/(auth)/backup')}
+              variant="outline"
+              style={styles.actionButton}
+            />
+          </Card>
+
+          <Card style={styles.actionCard}>
+            <Button
+              title="Diagnóstico de Datos"
+              onPress={() => router.push('/diagnostics')}
+              variant="outline"
+              style={styles.actionButton}
+            />
+          </Card>
+
+          <Card style={styles.actionCard}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingText}>
+                <Text style={styles.settingTitle}>Registro abierto</Text>
+                <Text style={styles.settingDescription}>
+                  Permitir que cualquiera cree una cuenta desde la pantalla de
+                  registro
+                </Text>
+              </View>
+              <Switch
+                value={registrationEnabled}
+                onValueChange={handleToggleRegistration}
+                trackColor={{ true: COLORS.primary, false: COLORS.disabled }}
+              />
+            </View>
+          </Card>
+
+          <Card style={styles.actionCard}>
+            <Text style={styles.settingTitle}>Retención de papelera</Text>
+            <Text style={styles.settingDescription}>
+              Días que un registro eliminado se puede restaurar antes de
+              borrarse definitivamente
+            </Text>
+            <View style={styles.optionRow}>
+              {TRASH_RETENTION_OPTIONS.map((days) => {
+                const selected = days === retentionDays;
+                return (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.option, selected && styles.optionSelected]}
+                    onPress={() => handleChangeRetention(days)}
+                  >
+                    <Text
+                      style={[styles.optionText, selected && styles.optionTextSelected]}
+                    >
+                      {days} días
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+        </>
+      )}
+
       {/* Logout */}
       <View style={styles.logoutContainer}>
         <Button
@@ -150,6 +323,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.text,
   },
+  roleText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
   statsRow: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -182,6 +360,49 @@ const styles = StyleSheet.create({
   actionButton: {
     width: '100%',
   },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  settingDescription: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  optionSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  optionTextSelected: {
+    color: COLORS.surface,
+    fontWeight: '600',
+  },
   logoutContainer: {
     marginTop: SPACING.xl,
     marginBottom: SPACING.xxl,
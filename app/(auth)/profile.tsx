@@ -0,0 +1,297 @@
+import { Button, Card, Input, PasswordStrengthMeter } from '@/src/components/ui';
+import { changePassword } from '@/src/services/database.service';
+import { getErrorMessage, TooManyAttemptsError } from '@/src/services/errors';
+import { useAuthStore } from '@/src/stores/auth.store';
+import { COLORS, FONT_SIZES, ROLE_LABELS, SPACING } from '@/src/utils/constants';
+import { getPasswordError } from '@/src/utils/validators';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+export default function ProfileScreen() {
+  const { user, deleteAccount, isLoading } = useAuthStore();
+
+  // Change password state
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{
+    currentPassword?: string;
+    newPassword?: string;
+    confirmPassword?: string;
+  }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Delete account state
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState<string | undefined>();
+
+  const validate = (): boolean => {
+    const newErrors: {
+      currentPassword?: string;
+      newPassword?: string;
+      confirmPassword?: string;
+    } = {};
+
+    if (!currentPassword) {
+      newErrors.currentPassword = 'Ingresa tu contraseña actual';
+    }
+
+    const passwordError = getPasswordError(newPassword, user?.username);
+    if (passwordError) {
+      newErrors.newPassword = passwordError;
+    } else if (newPassword === currentPassword) {
+      newErrors.newPassword = 'La nueva contraseña debe ser distinta a la actual';
+    }
+
+    if (!confirmPassword) {
+      newErrors.confirmPassword = 'Confirma tu nueva contraseña';
+    } else if (newPassword !== confirmPassword) {
+      newErrors.confirmPassword = 'Las contraseñas no coinciden';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleChangePassword = async () => {
+    if (!user || !validate()) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const success = await changePassword(user.id, currentPassword, newPassword);
+
+      if (success) {
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+        setErrors({});
+        Alert.alert('Contraseña Actualizada', 'Tu contraseña ha sido cambiada');
+      } else {
+        setErrors({ currentPassword: 'La contraseña actual es incorrecta' });
+      }
+    } catch (error) {
+      console.error('Error changing password:', error);
+      if (error instanceof TooManyAttemptsError) {
+        setErrors({ currentPassword: getErrorMessage(error, '') });
+      } else {
+        Alert.alert('Error', 'No se pudo cambiar la contraseña');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    if (!deletePassword) {
+      setDeleteError('Ingresa tu contraseña para confirmar');
+      return;
+    }
+
+    Alert.alert(
+      'Eliminar Cuenta',
+      'Esta acción no se puede deshacer. Tus registros se transferirán a un administrador.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const success = await deleteAccount(deletePassword);
+
+              if (success) {
+                router.replace('/login');
+              } else {
+                setDeleteError(
+                  'Contraseña incorrecta o no existe otro administrador activo que reciba tus registros',
+                );
+              }
+            } catch (error) {
+              setDeleteError(getErrorMessage(error, 'No se pudo eliminar la cuenta'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Account Info */}
+        <Card variant="elevated" style={styles.infoCard}>
+          <View style={styles.infoHeader}>
+            <Ionicons name="person-circle" size={48} color={COLORS.primary} />
+            <View style={styles.infoText}>
+              <Text style={styles.username}>{user?.username}</Text>
+              {user && (
+                <Text style={styles.roleText}>{ROLE_LABELS[user.role]}</Text>
+              )}
+            </View>
+          </View>
+        </Card>
+
+        {/* Change Password */}
+        <Card style={styles.sectionCard}>
+          <Text style={styles.sectionTitle}>Cambiar Contraseña</Text>
+
+          <Input
+            label="Contraseña actual"
+            placeholder="Ingresa tu contraseña actual"
+            value={currentPassword}
+            onChangeText={(text) => {
+              setCurrentPassword(text);
+              if (errors.currentPassword) {
+                setErrors((prev) => ({ ...prev, currentPassword: undefined }));
+              }
+            }}
+            secureTextEntry
+            error={errors.currentPassword}
+          />
+
+          <Input
+            label="Nueva contraseña"
+            placeholder="Crea una nueva contraseña"
+            value={newPassword}
+            onChangeText={(text) => {
+              setNewPassword(text);
+              if (errors.newPassword) {
+                setErrors((prev) => ({ ...prev, newPassword: undefined }));
+              }
+            }}
+            secureTextEntry
+            error={errors.newPassword}
+            footer={
+              <PasswordStrengthMeter
+                password={newPassword}
+                username={user?.username}
+              />
+            }
+          />
+
+          <Input
+            label="Confirmar nueva contraseña"
+            placeholder="Repite la nueva contraseña"
+            value={confirmPassword}
+            onChangeText={(text) => {
+              setConfirmPassword(text);
+              if (errors.confirmPassword) {
+                setErrors((prev) => ({ ...prev, confirmPassword: undefined }));
+              }
+            }}
+            secureTextEntry
+            error={errors.confirmPassword}
+          />
+
+          <Button
+            title="Cambiar Contraseña"
+            onPress={handleChangePassword}
+            loading={isSaving}
+          />
+        </Card>
+
+        {/* Delete Account */}
+        <Card style={styles.dangerCard}>
+          <Text style={styles.dangerTitle}>Eliminar Cuenta</Text>
+          <Text style={styles.dangerText}>
+            Se eliminará tu cuenta de este dispositivo. Los registros que creaste
+            pasarán a un administrador.
+          </Text>
+
+          <Input
+            label="Contraseña"
+            placeholder="Confirma con tu contraseña"
+            value={deletePassword}
+            onChangeText={(text) => {
+              setDeletePassword(text);
+              setDeleteError(undefined);
+            }}
+            secureTextEntry
+            error={deleteError}
+          />
+
+          <Button
+            title="Eliminar mi Cuenta"
+            onPress={handleDeleteAccount}
+            loading={isLoading}
+            variant="danger"
+          />
+        </Card>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  infoCard: {
+    marginBottom: SPACING.md,
+  },
+  infoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  infoText: {
+    marginLeft: SPACING.md,
+  },
+  username: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  roleText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
+  sectionCard: {
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.md,
+  },
+  dangerCard: {
+    marginBottom: SPACING.xxl,
+    borderColor: '#fca5a5',
+  },
+  dangerTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.error,
+    marginBottom: SPACING.xs,
+  },
+  dangerText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    lineHeight: 20,
+    marginBottom: SPACING.md,
+  },
+});
@@ -1,18 +1,46 @@
-import { Button, Card, Input } from '@/src/components/ui';
-import { deleteRecord, getAllRecords, updateRecord } from '@/src/services/database.service';
-import type { ClientRecord } from '@/src/types';
-import { COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
+import {
+  RecordFiltersModal,
+  RucBadge,
+  countActiveFilters,
+  type RecordListFilters,
+} from '@/src/components/records';
+import { Button, Card, Input, Snackbar } from '@/src/components/ui';
+import {
+  deleteRecord,
+  getRecordsPage,
+  restoreRecord,
+  updateRecord,
+} from '@/src/services/database.service';
+import {
+  DuplicateRecordError,
+  getErrorMessage,
+  NotFoundError,
+  ValidationError,
+} from '@/src/services/errors';
+import { exportRecords } from '@/src/services/export.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { ClientRecord, ExportFormat, RecordCursor } from '@/src/types';
+import {
+  COLORS,
+  FONT_SIZES,
+  SEARCH_DEBOUNCE_MS,
+  SPACING,
+  UNDO_TIMEOUT_MS,
+} from '@/src/utils/constants';
+import { getRecordOwnerScope, hasPermission } from '@/src/utils/permissions';
 import { getRUCError, getClientNameError } from '@/src/utils/validators';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   FlatList,
   Modal,
   RefreshControl,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
   KeyboardAvoidingView,
@@ -21,10 +49,33 @@ import {
 } from 'react-native';
 
 export default function RecordsScreen() {
+  const { user } = useAuthStore();
+  const canEdit = hasPermission(user, 'records:edit');
+  const canDelete = hasPermission(user, 'records:delete');
   const [records, setRecords] = useState<ClientRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Pagination state
+  const [nextCursor, setNextCursor] = useState<RecordCursor | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Incremented on every reload so late pages from an old search are dropped
+  const requestIdRef = useRef(0);
+
+  // Search and filter state
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<RecordListFilters>({});
+  const [filtersVisible, setFiltersVisible] = useState(false);
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltering = debouncedQuery.trim().length > 0 || activeFilterCount > 0;
   
+  // Last deleted record, offered for undo while the snackbar shows
+  const [lastDeleted, setLastDeleted] = useState<ClientRecord | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const dismissUndo = useCallback(() => setLastDeleted(null), []);
+
   // Edit modal state
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingRecord, setEditingRecord] = useState<ClientRecord | null>(null);
@@ -33,56 +84,175 @@ export default function RecordsScreen() {
   const [editErrors, setEditErrors] = useState<{ ruc?: string; clientName?: string }>({});
   const [isSaving, setIsSaving] = useState(false);
 
-  const loadRecords = async () => {
+  const loadRecords = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+
     try {
-      const data = await getAllRecords();
-      setRecords(data);
+      const page = await getRecordsPage(getRecordOwnerScope(user), {
+        ...filters,
+        query: debouncedQuery,
+      });
+
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      setRecords(page.records);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
     } catch (error) {
       console.error('Error loading records:', error);
       Alert.alert('Error', 'No se pudieron cargar los registros');
     } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, [user, filters, debouncedQuery]);
+
+  const loadMoreRecords = async () => {
+    if (!user || !nextCursor || isLoadingMore) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await getRecordsPage(
+        getRecordOwnerScope(user),
+        { ...filters, query: debouncedQuery },
+        nextCursor,
+      );
+
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      setRecords((prev) => [...prev, ...page.records]);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
+    } catch (error) {
+      console.error('Error loading more records:', error);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoadingMore(false);
+      }
     }
   };
 
-  // Reload records when screen comes into focus
+  // Wait for the user to stop typing before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Reload records when screen comes into focus or the search changes
   useFocusEffect(
     useCallback(() => {
       loadRecords();
-    }, []),
+    }, [loadRecords]),
   );
 
-  const handleRefresh = () => {
-    setIsRefreshing(true);
-    loadRecords();
+  const runExport = async (format: ExportFormat) => {
+    if (!user) {
+      return;
+    }
+
+    setIsExporting(true);
+
+    try {
+      // Export what the list is showing: same search, filters and order
+      await exportRecords(getRecordOwnerScope(user), format, {
+        ...filters,
+        query: debouncedQuery,
+      });
+    } catch (error) {
+      console.error('Error exporting records:', error);
+      Alert.alert('Error', 'No se pudieron exportar los registros');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const handleDelete = (record: ClientRecord) => {
+  const handleExport = () => {
+    if (totalCount === 0) {
+      Alert.alert('Sin Registros', 'No hay registros para exportar.');
+      return;
+    }
+
     Alert.alert(
-      'Eliminar Registro',
-      `¿Está seguro de eliminar el registro de ${record.clientName}?`,
+      'Exportar Registros',
+      isFiltering
+        ? `Se exportarán los ${totalCount} registros que coinciden con la búsqueda.`
+        : `Se exportarán ${totalCount} registros.`,
       [
         { text: 'Cancelar', style: 'cancel' },
-        {
-          text: 'Eliminar',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteRecord(record.id);
-              setRecords((prev) => prev.filter((r) => r.id !== record.id));
-              Alert.alert('Eliminado', 'El registro ha sido eliminado');
-            } catch (error) {
-              console.error('Error deleting record:', error);
-              Alert.alert('Error', 'No se pudo eliminar el registro');
-            }
-          },
-        },
+        { text: 'JSON', onPress: () => runExport('json') },
+        { text: 'CSV (Excel)', onPress: () => runExport('csv') },
       ],
     );
   };
 
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadRecords();
+  };
+
+  const handleDelete = async (record: ClientRecord) => {
+    if (!user || !canDelete) {
+      return;
+    }
+
+    try {
+      const deleted = await deleteRecord(record.id, record.userId, user.id);
+
+      if (deleted) {
+        setRecords((prev) => prev.filter((r) => r.id !== record.id));
+        setTotalCount((prev) => Math.max(0, prev - 1));
+        setLastDeleted(record);
+      }
+    } catch (error) {
+      console.error('Error deleting record:', error);
+      Alert.alert('Error', getErrorMessage(error, 'No se pudo eliminar el registro'));
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    const record = lastDeleted;
+    setLastDeleted(null);
+
+    if (!record || !user) {
+      return;
+    }
+
+    try {
+      await restoreRecord(record.id, record.userId, user.id);
+      loadRecords();
+    } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        Alert.alert(
+          'No se pudo restaurar',
+          `Ya existe otro registro con el RUC ${record.ruc} (#${error.existing.id})`,
+        );
+        return;
+      }
+      console.error('Error restoring record:', error);
+      Alert.alert('Error', getErrorMessage(error, 'No se pudo restaurar el registro'));
+    }
+  };
+
   const handleEdit = (record: ClientRecord) => {
+    if (!canEdit) {
+      return;
+    }
+
     setEditingRecord(record);
     setEditRuc(record.ruc);
     setEditClientName(record.clientName);
@@ -116,33 +286,47 @@ export default function RecordsScreen() {
   };
 
   const handleSaveEdit = async () => {
-    if (!editingRecord || !validateEdit()) {
+    if (!editingRecord || !user || !validateEdit()) {
       return;
     }
 
     setIsSaving(true);
 
     try {
-      const updatedRecord = await updateRecord({
-        id: editingRecord.id,
-        ruc: editRuc.trim(),
-        clientName: editClientName.trim(),
-      });
+      const updatedRecord = await updateRecord(
+        {
+          id: editingRecord.id,
+          userId: editingRecord.userId,
+          ruc: editRuc.trim(),
+          clientName: editClientName.trim(),
+        },
+        user.id,
+      );
 
-      if (updatedRecord) {
-        // Update the record in the local state
-        setRecords((prev) =>
-          prev.map((r) => (r.id === updatedRecord.id ? updatedRecord : r))
-        );
-        
+      // Update the record in the local state
+      setRecords((prev) =>
+        prev.map((r) => (r.id === updatedRecord.id ? updatedRecord : r))
+      );
+
+      handleCloseEditModal();
+      Alert.alert('Actualizado', 'El registro ha sido actualizado correctamente');
+    } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        setEditErrors({
+          ruc: `Ya existe otro registro con este RUC (#${error.existing.id})`,
+        });
+        return;
+      }
+      if (error instanceof ValidationError && (error.field === 'ruc' || error.field === 'clientName')) {
+        setEditErrors({ [error.field]: error.message });
+        return;
+      }
+      if (error instanceof NotFoundError) {
         handleCloseEditModal();
-        Alert.alert('Actualizado', 'El registro ha sido actualizado correctamente');
-      } else {
-        Alert.alert('Error', 'No se pudo actualizar el registro');
+        loadRecords();
       }
-    } catch (error) {
       console.error('Error updating record:', error);
-      Alert.alert('Error', 'Ocurrió un error al actualizar el registro');
+      Alert.alert('Error', getErrorMessage(error, 'Ocurrió un error al actualizar el registro'));
     } finally {
       setIsSaving(false);
     }
@@ -161,76 +345,94 @@ export default function RecordsScreen() {
   };
 
   const renderItem = ({ item }: { item: ClientRecord }) => (
-    <Card style={styles.recordCard}>
-      <View style={styles.recordHeader}>
-        <View style={styles.idBadge}>
-          <Text style={styles.idText}>#{item.id}</Text>
-        </View>
-        <View style={styles.actionButtons}>
-          <TouchableOpacity
-            onPress={() => handleEdit(item)}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            style={styles.actionButton}
-          >
-            <Ionicons name="pencil-outline" size={20} color={COLORS.primary} />
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => handleDelete(item)}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            style={styles.actionButton}
-          >
-            <Ionicons name="trash-outline" size={20} color={COLORS.error} />
-          </TouchableOpacity>
-        </View>
-      </View>
-
-      <View style={styles.recordBody}>
-        <View style={styles.recordRow}>
-          <Ionicons
-            name="business-outline"
-            size={16}
-            color={COLORS.textSecondary}
-          />
-          <Text style={styles.recordLabel}>RUC:</Text>
-          <Text style={styles.recordValue}>{item.ruc}</Text>
+    <TouchableOpacity
+      activeOpacity={0.7}
+      onPress={() => router.push(`/(auth)/records/${item.id}`)}
+    >
+      <Card style={styles.recordCard}>
+        <View style={styles.recordHeader}>
+          <View style={styles.idBadge}>
+            <Text style={styles.idText}>#{item.id}</Text>
+          </View>
+          <View style={styles.actionButtons}>
+            {canEdit && (
+              <TouchableOpacity
+                onPress={() => handleEdit(item)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                style={styles.actionButton}
+              >
+                <Ionicons name="pencil-outline" size={20} color={COLORS.primary} />
+              </TouchableOpacity>
+            )}
+            {canDelete && (
+              <TouchableOpacity
+                onPress={() => handleDelete(item)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                style={styles.actionButton}
+              >
+                <Ionicons name="trash-outline" size={20} color={COLORS.error} />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
-        <View style={styles.recordRow}>
-          <Ionicons
-            name="person-outline"
-            size={16}
-            color={COLORS.textSecondary}
-          />
-          <Text style={styles.recordLabel}>Cliente:</Text>
-          <Text style={styles.recordValue}>{item.clientName}</Text>
-        </View>
+        <View style={styles.recordBody}>
+          <View style={styles.recordRow}>
+            <Ionicons
+              name="business-outline"
+              size={16}
+              color={COLORS.textSecondary}
+            />
+            <Text style={styles.recordLabel}>RUC:</Text>
+            <Text style={styles.recordValue}>{item.ruc}</Text>
+            <RucBadge ruc={item.ruc} />
+          </View>
 
-        <View style={styles.recordRow}>
-          <Ionicons
-            name="calendar-outline"
-            size={16}
-            color={COLORS.textSecondary}
-          />
-          <Text style={styles.recordLabel}>Fecha:</Text>
-          <Text style={styles.recordValue}>{formatDate(item.createdAt)}</Text>
-        </View>
+          <View style={styles.recordRow}>
+            <Ionicons
+              name="person-outline"
+              size={16}
+              color={COLORS.textSecondary}
+            />
+            <Text style={styles.recordLabel}>Cliente:</Text>
+            <Text style={styles.recordValue}>{item.clientName}</Text>
+          </View>
 
-        {item.updatedAt !== item.createdAt && (
           <View style={styles.recordRow}>
             <Ionicons
-              name="refresh-outline"
+              name="calendar-outline"
               size={16}
               color={COLORS.textSecondary}
             />
-            <Text style={styles.recordLabel}>Editado:</Text>
-            <Text style={styles.recordValue}>{formatDate(item.updatedAt)}</Text>
+            <Text style={styles.recordLabel}>Fecha:</Text>
+            <Text style={styles.recordValue}>{formatDate(item.createdAt)}</Text>
           </View>
-        )}
-      </View>
-    </Card>
+
+          {item.updatedAt !== item.createdAt && (
+            <View style={styles.recordRow}>
+              <Ionicons
+                name="refresh-outline"
+                size={16}
+                color={COLORS.textSecondary}
+              />
+              <Text style={styles.recordLabel}>Editado:</Text>
+              <Text style={styles.recordValue}>{formatDate(item.updatedAt)}</Text>
+            </View>
+          )}
+        </View>
+      </Card>
+    </TouchableOpacity>
   );
 
-  const renderEmpty = () => (
+  const renderEmpty = () => isFiltering ? (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="search-outline" size={64} color={COLORS.textLight} />
+      <Text style={styles.emptyTitle}>Sin Resultados</Text>
+      <Text style={styles.emptyText}>
+        Ningún registro coincide con la búsqueda o los filtros.
+      </Text>
+    </View>
+  ) : (
     <View style={styles.emptyContainer}>
       <Ionicons
         name="document-text-outline"
@@ -250,9 +452,61 @@ export default function RecordsScreen() {
       {/* Header Stats */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Historial de Registros</Text>
-        <Text style={styles.headerCount}>
-          {records.length} {records.length === 1 ? 'registro' : 'registros'}
-        </Text>
+        <View style={styles.headerActions}>
+          <Text style={styles.headerCount}>
+            {totalCount} {totalCount === 1 ? 'registro' : 'registros'}
+          </Text>
+          {isExporting ? (
+            <ActivityIndicator size="small" color={COLORS.textSecondary} />
+          ) : (
+            <TouchableOpacity
+              onPress={handleExport}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="share-outline" size={22} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          )}
+          {canDelete && (
+            <TouchableOpacity
+              onPress={() => router.push('/(auth)/trash')}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="trash-bin-outline" size={22} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {/* Search Bar */}
+      <View style={styles.searchBar}>
+        <View style={styles.searchInputContainer}>
+          <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Buscar por nombre o RUC"
+            placeholderTextColor={COLORS.textLight}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={18} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity
+          style={styles.filterButton}
+          onPress={() => setFiltersVisible(true)}
+        >
+          <Ionicons name="options-outline" size={22} color={COLORS.primary} />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
 
       {/* Records List */}
@@ -270,9 +524,38 @@ export default function RecordsScreen() {
           />
         }
         ListEmptyComponent={!isLoading ? renderEmpty : null}
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator style={styles.listFooter} color={COLORS.primary} />
+          ) : null
+        }
+        onEndReached={loadMoreRecords}
+        onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
       />
 
+      {/* Undo Delete */}
+      <Snackbar
+        key={lastDeleted?.id}
+        visible={lastDeleted !== null}
+        message="Registro movido a la papelera"
+        actionLabel="Deshacer"
+        onAction={handleUndoDelete}
+        onDismiss={dismissUndo}
+        duration={UNDO_TIMEOUT_MS}
+      />
+
+      {/* Filters Modal */}
+      <RecordFiltersModal
+        visible={filtersVisible}
+        filters={filters}
+        onApply={(newFilters) => {
+          setFilters(newFilters);
+          setFiltersVisible(false);
+        }}
+        onClose={() => setFiltersVisible(false)}
+      />
+
       {/* Edit Modal */}
       <Modal
         visible={editModalVisible}
@@ -373,6 +656,11 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
   headerTitle: {
     fontSize: FONT_SIZES.lg,
     fontWeight: '600',
@@ -386,6 +674,53 @@ const styles = StyleSheet.create({
     paddingVertical: SPACING.xs,
     borderRadius: 12,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  searchInputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: COLORS.background,
+    borderRadius: 8,
+    paddingHorizontal: SPACING.sm,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  filterButton: {
+    padding: SPACING.sm,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: {
+    color: COLORS.surface,
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  listFooter: {
+    paddingVertical: SPACING.md,
+  },
   listContent: {
     padding: SPACING.md,
     flexGrow: 1,
@@ -0,0 +1,546 @@
+import {
+  EMPTY_RECORD_DETAILS,
+  RecordDetailsForm,
+  RucBadge,
+  getRecordDetailsErrors,
+  type RecordDetailsErrors,
+} from '@/src/components/records';
+import { Button, Card, Input } from '@/src/components/ui';
+import {
+  getRecordById,
+  getRecordHistory,
+  updateRecord,
+} from '@/src/services/database.service';
+import {
+  DuplicateRecordError,
+  getErrorMessage,
+  NotFoundError,
+  ValidationError,
+} from '@/src/services/errors';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type {
+  ClientRecord,
+  RecordAuditField,
+  RecordDetails,
+  RecordHistoryEntry,
+} from '@/src/types';
+import {
+  COLORS,
+  FONT_SIZES,
+  RECORD_FIELD_LABELS,
+  RECORD_HISTORY_ACTION_LABELS,
+  RECORD_STATUS_LABELS,
+  SPACING,
+} from '@/src/utils/constants';
+import { getRecordOwnerScope, hasPermission } from '@/src/utils/permissions';
+import { getClientNameError, getRUCError, parseRUC } from '@/src/utils/validators';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+// Detail fields shown in read mode, in display order
+const DETAIL_FIELDS: Exclude<keyof RecordDetails, 'status'>[] = [
+  'address',
+  'district',
+  'province',
+  'department',
+  'phone',
+  'email',
+  'notes',
+];
+
+export default function RecordDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const [record, setRecord] = useState<ClientRecord | null>(null);
+  const [history, setHistory] = useState<RecordHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const canEdit = hasPermission(user, 'records:edit');
+
+  // Edit mode state
+  const [isEditing, setIsEditing] = useState(false);
+  const [editRuc, setEditRuc] = useState('');
+  const [editClientName, setEditClientName] = useState('');
+  const [editDetails, setEditDetails] = useState<RecordDetails>(EMPTY_RECORD_DETAILS);
+  const [editErrors, setEditErrors] = useState<{ ruc?: string; clientName?: string }>({});
+  const [detailErrors, setDetailErrors] = useState<RecordDetailsErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRecord = useCallback(async () => {
+    const recordId = Number(id);
+    if (!user || !Number.isInteger(recordId)) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [found, entries] = await Promise.all([
+        getRecordById(recordId, getRecordOwnerScope(user)),
+        getRecordHistory(recordId, getRecordOwnerScope(user)),
+      ]);
+      setRecord(found);
+      setHistory(entries);
+    } catch (error) {
+      console.error('Error loading record:', error);
+      Alert.alert('Error', 'No se pudo cargar el registro');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRecord();
+    }, [loadRecord]),
+  );
+
+  const handleStartEdit = () => {
+    if (!record) {
+      return;
+    }
+
+    setEditRuc(record.ruc);
+    setEditClientName(record.clientName);
+    setEditDetails({
+      address: record.address,
+      district: record.district,
+      province: record.province,
+      department: record.department,
+      phone: record.phone,
+      email: record.email,
+      notes: record.notes,
+      status: record.status,
+    });
+    setEditErrors({});
+    setDetailErrors({});
+    setIsEditing(true);
+  };
+
+  const handleDetailChange = <K extends keyof RecordDetails>(
+    field: K,
+    value: RecordDetails[K],
+  ) => {
+    setEditDetails((prev) => ({ ...prev, [field]: value }));
+    if (detailErrors[field]) {
+      setDetailErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateEdit = (): boolean => {
+    const newErrors: { ruc?: string; clientName?: string } = {};
+
+    const rucError = getRUCError(editRuc);
+    if (rucError) {
+      newErrors.ruc = rucError;
+    }
+
+    const nameError = getClientNameError(editClientName);
+    if (nameError) {
+      newErrors.clientName = nameError;
+    }
+
+    const newDetailErrors = getRecordDetailsErrors(editDetails);
+
+    setEditErrors(newErrors);
+    setDetailErrors(newDetailErrors);
+    return (
+      Object.keys(newErrors).length === 0 &&
+      Object.keys(newDetailErrors).length === 0
+    );
+  };
+
+  const handleSave = async () => {
+    if (!record || !user || !validateEdit()) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      await updateRecord(
+        {
+          id: record.id,
+          userId: record.userId,
+          ruc: editRuc.trim(),
+          clientName: editClientName.trim(),
+          ...editDetails,
+        },
+        user.id,
+      );
+
+      setIsEditing(false);
+      await loadRecord();
+    } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        setEditErrors({
+          ruc: `Ya existe otro registro con este RUC (#${error.existing.id})`,
+        });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        if (error.field === 'ruc' || error.field === 'clientName') {
+          setEditErrors({ [error.field]: error.message });
+        } else {
+          setDetailErrors({ [error.field]: error.message });
+        }
+        return;
+      }
+      if (error instanceof NotFoundError) {
+        // Deleted elsewhere meanwhile; reloading shows the not-found view
+        setIsEditing(false);
+        await loadRecord();
+      }
+      console.error('Error updating record:', error);
+      Alert.alert('Error', getErrorMessage(error, 'Ocurrió un error al actualizar el registro'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string): string => {
+    try {
+      const date = new Date(dateString);
+      return date.toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const formatChangeValue = (
+    field: RecordAuditField,
+    value: string | null | undefined,
+  ): string => {
+    if (!value) {
+      return '—';
+    }
+    if (field === 'status') {
+      return RECORD_STATUS_LABELS[value as keyof typeof RECORD_STATUS_LABELS] ?? value;
+    }
+    return value;
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (!record) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="document-outline" size={64} color={COLORS.textLight} />
+        <Text style={styles.emptyTitle}>Registro no encontrado</Text>
+        <Text style={styles.emptyText}>
+          Puede haber sido eliminado o pertenecer a otro usuario.
+        </Text>
+      </View>
+    );
+  }
+
+  const parsedRuc = parseRUC(record.ruc);
+
+  const renderHistoryEntry = (entry: RecordHistoryEntry) => {
+    const fields = Object.keys(entry.changes) as RecordAuditField[];
+
+    return (
+      <View key={entry.id} style={styles.historyEntry}>
+        <View style={styles.historyDot} />
+        <View style={styles.historyBody}>
+          <Text style={styles.historyAction}>
+            {RECORD_HISTORY_ACTION_LABELS[entry.action]}
+          </Text>
+          <Text style={styles.historyMeta}>
+            {formatDate(entry.createdAt)} ·{' '}
+            {entry.actorUsername ?? (entry.actorId === null ? 'Sistema' : 'Usuario eliminado')}
+          </Text>
+          {entry.action === 'update' &&
+            fields.map((field) => (
+              <Text key={field} style={styles.historyChange}>
+                {RECORD_FIELD_LABELS[field]}: {formatChangeValue(field, entry.changes[field]?.old)} →{' '}
+                {formatChangeValue(field, entry.changes[field]?.new)}
+              </Text>
+            ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Record Info */}
+        {isEditing ? (
+          <Card variant="elevated" style={styles.infoCard}>
+            <Input
+              label="RUC *"
+              placeholder="Ingrese el RUC (11 dígitos)"
+              value={editRuc}
+              onChangeText={(text) => {
+                setEditRuc(text.replace(/[^0-9]/g, ''));
+                if (editErrors.ruc) {
+                  setEditErrors((prev) => ({ ...prev, ruc: undefined }));
+                }
+              }}
+              keyboardType="numeric"
+              maxLength={11}
+              error={editErrors.ruc}
+            />
+
+            <Input
+              label="Nombre del Cliente *"
+              placeholder="Ingrese el nombre del cliente"
+              value={editClientName}
+              onChangeText={(text) => {
+                setEditClientName(text);
+                if (editErrors.clientName) {
+                  setEditErrors((prev) => ({ ...prev, clientName: undefined }));
+                }
+              }}
+              autoCapitalize="words"
+              error={editErrors.clientName}
+            />
+
+            <RecordDetailsForm
+              values={editDetails}
+              errors={detailErrors}
+              onChange={handleDetailChange}
+            />
+
+            <View style={styles.buttonRow}>
+              <Button
+                title="Cancelar"
+                onPress={() => setIsEditing(false)}
+                variant="outline"
+                style={styles.cancelButton}
+              />
+              <Button
+                title="Guardar"
+                onPress={handleSave}
+                loading={isSaving}
+                style={styles.saveButton}
+              />
+            </View>
+          </Card>
+        ) : (
+          <Card variant="elevated" style={styles.infoCard}>
+            <View style={styles.infoHeader}>
+              <View style={styles.idBadge}>
+                <Text style={styles.idText}>#{record.id}</Text>
+              </View>
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>
+                  {RECORD_STATUS_LABELS[record.status]}
+                </Text>
+              </View>
+              {canEdit && (
+                <TouchableOpacity
+                  onPress={handleStartEdit}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  style={styles.editButton}
+                >
+                  <Ionicons name="pencil-outline" size={20} color={COLORS.primary} />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <Text style={styles.label}>Cliente</Text>
+            <Text style={styles.value}>{record.clientName}</Text>
+
+            <Text style={styles.label}>RUC</Text>
+            <View style={styles.rucRow}>
+              <Text style={styles.value}>{record.ruc}</Text>
+              <RucBadge ruc={record.ruc} />
+            </View>
+
+            {parsedRuc?.dni && (
+              <>
+                <Text style={styles.label}>DNI</Text>
+                <Text style={styles.value}>
+                  {parsedRuc.dni}-{parsedRuc.dniCheckDigit}
+                </Text>
+              </>
+            )}
+
+            {DETAIL_FIELDS.filter((field) => record[field] !== '').map((field) => (
+              <React.Fragment key={field}>
+                <Text style={styles.label}>{RECORD_FIELD_LABELS[field]}</Text>
+                <Text style={styles.value}>{record[field]}</Text>
+              </React.Fragment>
+            ))}
+
+            <Text style={styles.label}>Fecha de registro</Text>
+            <Text style={styles.value}>{formatDate(record.createdAt)}</Text>
+
+            {record.updatedAt !== record.createdAt && (
+              <>
+                <Text style={styles.label}>Última edición</Text>
+                <Text style={styles.value}>{formatDate(record.updatedAt)}</Text>
+              </>
+            )}
+          </Card>
+        )}
+
+        {/* Change History */}
+        <Text style={styles.sectionTitle}>Historial de Cambios</Text>
+        <Card style={styles.historyCard}>
+          {history.length > 0 ? (
+            history.map(renderHistoryEntry)
+          ) : (
+            <Text style={styles.emptyText}>Sin cambios registrados.</Text>
+          )}
+        </Card>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    backgroundColor: COLORS.background,
+  },
+  infoCard: {
+    marginBottom: SPACING.lg,
+  },
+  infoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  idBadge: {
+    backgroundColor: COLORS.primary,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 4,
+  },
+  statusBadge: {
+    backgroundColor: COLORS.background,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    fontWeight: '500',
+  },
+  editButton: {
+    marginLeft: 'auto',
+    padding: SPACING.xs,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  saveButton: {
+    flex: 2,
+  },
+  idText: {
+    color: COLORS.surface,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  value: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+    fontWeight: '500',
+  },
+  rucRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.md,
+  },
+  historyCard: {
+    marginBottom: SPACING.xxl,
+  },
+  historyEntry: {
+    flexDirection: 'row',
+    paddingVertical: SPACING.sm,
+  },
+  historyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.primary,
+    marginTop: 5,
+    marginRight: SPACING.md,
+  },
+  historyBody: {
+    flex: 1,
+  },
+  historyAction: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  historyMeta: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  historyChange: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+    marginTop: SPACING.xs,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+});
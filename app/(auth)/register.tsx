@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,18 +7,69 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  EMPTY_RECORD_DETAILS,
+  RecordDetailsForm,
+  getRecordDetailsErrors,
+  type RecordDetailsErrors,
+} from '@/src/components/records';
 import { Button, Input, Card } from '@/src/components/ui';
-import { createRecord } from '@/src/services/database.service';
-import { getRUCError, getClientNameError } from '@/src/utils/validators';
+import {
+  createRecord,
+  findRecordByRuc,
+  updateRecord,
+} from '@/src/services/database.service';
+import {
+  DuplicateRecordError,
+  getErrorMessage,
+  NotFoundError,
+  ValidationError,
+} from '@/src/services/errors';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { ClientRecord, RecordDetails } from '@/src/types';
+import { getRUCError, getClientNameError, validateRUC } from '@/src/utils/validators';
 import { COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
 
 export default function RegisterScreen() {
+  const { user } = useAuthStore();
   const [ruc, setRuc] = useState('');
   const [clientName, setClientName] = useState('');
   const [errors, setErrors] = useState<{ ruc?: string; clientName?: string }>({});
   const [isLoading, setIsLoading] = useState(false);
   const [lastSaved, setLastSaved] = useState<{ id: number; timestamp: string } | null>(null);
+  const [existingRecord, setExistingRecord] = useState<ClientRecord | null>(null);
+  const [details, setDetails] = useState<RecordDetails>(EMPTY_RECORD_DETAILS);
+  const [detailErrors, setDetailErrors] = useState<RecordDetailsErrors>({});
+  const [showDetails, setShowDetails] = useState(false);
+
+  // Look up the RUC as soon as it is complete to warn about duplicates
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId || !validateRUC(ruc)) {
+      setExistingRecord(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    findRecordByRuc(userId, ruc)
+      .then((record) => {
+        if (!cancelled) {
+          setExistingRecord(record);
+        }
+      })
+      .catch((error) => {
+        console.error('Error checking duplicate RUC:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ruc, userId]);
 
   const validate = (): boolean => {
     const newErrors: { ruc?: string; clientName?: string } = {};
@@ -33,12 +84,55 @@ export default function RegisterScreen() {
       newErrors.clientName = nameError;
     }
 
+    const newDetailErrors = getRecordDetailsErrors(details);
+    if (Object.keys(newDetailErrors).length > 0) {
+      // Reveal the section so the errors are visible
+      setShowDetails(true);
+    }
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setDetailErrors(newDetailErrors);
+    return (
+      Object.keys(newErrors).length === 0 &&
+      Object.keys(newDetailErrors).length === 0
+    );
+  };
+
+  const handleDetailChange = <K extends keyof RecordDetails>(
+    field: K,
+    value: RecordDetails[K],
+  ) => {
+    setDetails((prev) => ({ ...prev, [field]: value }));
+    if (detailErrors[field]) {
+      setDetailErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const resetForm = () => {
+    setRuc('');
+    setClientName('');
+    setDetails(EMPTY_RECORD_DETAILS);
+    setErrors({});
+    setDetailErrors({});
+  };
+
+  // The service rejected a field the form let through
+  const showValidationError = (error: ValidationError) => {
+    if (error.field === 'ruc' || error.field === 'clientName') {
+      setErrors({ [error.field]: error.message });
+    } else {
+      setDetailErrors({ [error.field]: error.message });
+      setShowDetails(true);
+    }
   };
 
   const handleSave = async () => {
-    if (!validate()) {
+    if (!user || !hasPermission(user, 'records:create') || !validate()) {
+      return;
+    }
+
+    if (existingRecord) {
+      await handleUpdateExisting(existingRecord);
       return;
     }
 
@@ -46,8 +140,10 @@ export default function RegisterScreen() {
 
     try {
       const record = await createRecord({
+        userId: user.id,
         ruc: ruc.trim(),
         clientName: clientName.trim(),
+        ...details,
       });
 
       // Format the timestamp for display
@@ -64,27 +160,99 @@ export default function RegisterScreen() {
         [
           {
             text: 'Nuevo Registro',
-            onPress: () => {
-              setRuc('');
-              setClientName('');
-              setErrors({});
-            },
+            onPress: resetForm,
           },
           { text: 'OK' },
         ]
       );
     } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        setExistingRecord(error.existing);
+        Alert.alert(
+          'RUC Duplicado',
+          'Ya existe un registro con este RUC. Puede actualizarlo en lugar de crear uno nuevo.',
+        );
+        return;
+      }
+      if (error instanceof ValidationError) {
+        showValidationError(error);
+        return;
+      }
       console.error('Error saving record:', error);
-      Alert.alert('Error', 'No se pudo guardar el registro. Intente nuevamente.');
+      Alert.alert(
+        'Error',
+        getErrorMessage(error, 'No se pudo guardar el registro. Intente nuevamente.'),
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdateExisting = async (record: ClientRecord) => {
+    if (!user || !hasPermission(user, 'records:edit')) {
+      Alert.alert('RUC Duplicado', 'Ya existe un registro con este RUC.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // Only overwrite the details that were filled in on this form
+      const filledDetails: Partial<RecordDetails> = Object.fromEntries(
+        Object.entries(details).filter(
+          ([field, value]) =>
+            value.trim() !== '' && (field !== 'status' || showDetails),
+        ),
+      );
+
+      const updated = await updateRecord({
+        id: record.id,
+        userId: user.id,
+        ruc: record.ruc,
+        clientName: clientName.trim(),
+        ...filledDetails,
+      });
+
+      setExistingRecord(updated);
+      Alert.alert(
+        'Registro Actualizado',
+        `ID: ${updated.id}\nRUC: ${updated.ruc}\nCliente: ${updated.clientName}`,
+        [
+          {
+            text: 'Nuevo Registro',
+            onPress: resetForm,
+          },
+          { text: 'OK' },
+        ],
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        showValidationError(error);
+        return;
+      }
+      if (error instanceof NotFoundError) {
+        setExistingRecord(null); // deleted meanwhile; saving again creates it
+      }
+      console.error('Error updating record:', error);
+      Alert.alert('Error', getErrorMessage(error, 'Ocurrió un error al actualizar el registro'));
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleClear = () => {
-    setRuc('');
-    setClientName('');
-    setErrors({});
+    resetForm();
+  };
+
+  const formatDate = (dateString: string): string => {
+    try {
+      return new Date(dateString).toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
   };
 
   return (
@@ -132,6 +300,26 @@ export default function RegisterScreen() {
             error={errors.ruc}
           />
 
+          {existingRecord && (
+            <View style={styles.duplicateBox}>
+              <Text style={styles.duplicateTitle}>
+                Ya existe un registro con este RUC
+              </Text>
+              <Text style={styles.duplicateText}>ID: #{existingRecord.id}</Text>
+              <Text style={styles.duplicateText}>
+                Cliente: {existingRecord.clientName}
+              </Text>
+              <Text style={styles.duplicateText}>
+                Fecha: {formatDate(existingRecord.createdAt)}
+              </Text>
+              {hasPermission(user, 'records:edit') && (
+                <Text style={styles.duplicateHint}>
+                  Al guardar se actualizará el nombre del registro existente.
+                </Text>
+              )}
+            </View>
+          )}
+
           <Input
             label="Nombre del Cliente *"
             placeholder="Ingrese el nombre del cliente"
@@ -146,6 +334,26 @@ export default function RegisterScreen() {
             error={errors.clientName}
           />
 
+          <TouchableOpacity
+            style={styles.detailsToggle}
+            onPress={() => setShowDetails((prev) => !prev)}
+          >
+            <Text style={styles.detailsToggleText}>Datos adicionales</Text>
+            <Ionicons
+              name={showDetails ? 'chevron-up' : 'chevron-down'}
+              size={20}
+              color={COLORS.primary}
+            />
+          </TouchableOpacity>
+
+          {showDetails && (
+            <RecordDetailsForm
+              values={details}
+              errors={detailErrors}
+              onChange={handleDetailChange}
+            />
+          )}
+
           <View style={styles.buttonRow}>
             <Button
               title="Limpiar"
@@ -154,7 +362,7 @@ export default function RegisterScreen() {
               style={styles.clearButton}
             />
             <Button
-              title="Guardar"
+              title={existingRecord ? 'Actualizar' : 'Guardar'}
               onPress={handleSave}
               loading={isLoading}
               style={styles.saveButton}
@@ -220,6 +428,41 @@ const styles = StyleSheet.create({
   formCard: {
     marginBottom: SPACING.md,
   },
+  duplicateBox: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#fcd34d',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  duplicateTitle: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    color: COLORS.warning,
+    marginBottom: SPACING.xs,
+  },
+  duplicateText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  duplicateHint: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  detailsToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  detailsToggleText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: SPACING.md,
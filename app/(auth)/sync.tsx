@@ -0,0 +1,379 @@
+import { Button, Card, Input } from '@/src/components/ui';
+import {
+  getSyncConflicts,
+  getSyncEndpoint,
+  getSyncStatus,
+  keepDiscardedVersion,
+  resolveSyncConflict,
+  setSyncEndpoint,
+} from '@/src/services/database.service';
+import { getErrorMessage } from '@/src/services/errors';
+import { runSync } from '@/src/services/sync.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { SyncConflict, SyncRecord, SyncStatus } from '@/src/types';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+export default function SyncScreen() {
+  const { user } = useAuthStore();
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [endpoint, setEndpoint] = useState('');
+  const [savedEndpoint, setSavedEndpoint] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManageSettings = hasPermission(user, 'settings:manage');
+  const canEdit = hasPermission(user, 'records:edit');
+
+  const loadSync = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [currentStatus, currentConflicts, currentEndpoint] = await Promise.all([
+        getSyncStatus(),
+        getSyncConflicts(user.id),
+        getSyncEndpoint(),
+      ]);
+      setStatus(currentStatus);
+      setConflicts(currentConflicts);
+      setSavedEndpoint(currentEndpoint);
+      setEndpoint(currentEndpoint ?? '');
+    } catch (error) {
+      console.error('Error loading sync status:', error);
+      Alert.alert('Error', 'No se pudo cargar el estado de sincronización');
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSync();
+    }, [loadSync]),
+  );
+
+  const formatDate = (dateString: string): string => {
+    try {
+      return new Date(dateString).toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadSync();
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await runSync();
+
+      if (result.error) {
+        Alert.alert(
+          'Sin conexión',
+          'No se pudo contactar al servidor. Los cambios quedan pendientes y se enviarán automáticamente.',
+        );
+      } else {
+        const lines = [`${result.pushed} cambios enviados, ${result.pulled} recibidos.`];
+        if (result.conflicts > 0) {
+          lines.push(`${result.conflicts} conflictos resueltos automáticamente. Revísalos abajo.`);
+        }
+        Alert.alert('Sincronización completada', lines.join('\n\n'));
+      }
+    } finally {
+      setIsSyncing(false);
+      loadSync();
+    }
+  };
+
+  const handleSaveEndpoint = async () => {
+    const trimmed = endpoint.trim();
+    if (trimmed && !/^https?:\/\/\S+$/i.test(trimmed)) {
+      Alert.alert('Dirección no válida', 'Ingresa una dirección que empiece con http:// o https://');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setSyncEndpoint(trimmed);
+      await loadSync();
+    } catch (error) {
+      console.error('Error saving sync endpoint:', error);
+      Alert.alert('Error', 'No se pudo guardar la dirección del servidor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDismiss = async (conflict: SyncConflict) => {
+    if (!user) return;
+
+    try {
+      await resolveSyncConflict(conflict.id, user.id);
+      setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      Alert.alert('Error', 'No se pudo actualizar el conflicto');
+    }
+  };
+
+  const handleKeepDiscarded = async (conflict: SyncConflict) => {
+    if (!user) return;
+
+    try {
+      const record = await keepDiscardedVersion(conflict.id, user.id);
+      if (record) {
+        setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+        loadSync();
+      }
+    } catch (error) {
+      console.error('Error applying conflict version:', error);
+      Alert.alert('Error', getErrorMessage(error, 'No se pudo aplicar la versión'));
+    }
+  };
+
+  const renderVersion = (label: string, record: SyncRecord | null, won: boolean) => (
+    <View style={styles.version}>
+      <View style={styles.versionHeader}>
+        <Text style={styles.versionLabel}>{label}</Text>
+        {won && <Text style={styles.winnerBadge}>Conservada</Text>}
+      </View>
+      {record ? (
+        <>
+          <Text style={styles.versionText}>{record.clientName}</Text>
+          <Text style={styles.versionMeta}>
+            {record.deletedAt ? 'En la papelera · ' : ''}
+            Editada: {formatDate(record.updatedAt)}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.versionMeta}>Eliminado</Text>
+      )}
+    </View>
+  );
+
+  const renderConflict = (conflict: SyncConflict) => {
+    const discarded = conflict.winner === 'local' ? conflict.remote : conflict.local;
+    const ruc = conflict.local?.ruc ?? conflict.remote?.ruc ?? '';
+
+    return (
+      <Card key={conflict.id} style={styles.card}>
+        <Text style={styles.conflictTitle}>RUC {ruc}</Text>
+        <Text style={styles.versionMeta}>{formatDate(conflict.createdAt)}</Text>
+
+        {renderVersion('Este dispositivo', conflict.local, conflict.winner === 'local')}
+        {renderVersion('Servidor', conflict.remote, conflict.winner === 'remote')}
+
+        <View style={styles.conflictActions}>
+          <Button
+            title="Entendido"
+            onPress={() => handleDismiss(conflict)}
+            variant="outline"
+            style={styles.conflictButton}
+          />
+          {canEdit && discarded && (
+            <Button
+              title="Usar la otra versión"
+              onPress={() => handleKeepDiscarded(conflict)}
+              style={styles.conflictButton}
+            />
+          )}
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          colors={[COLORS.primary]}
+        />
+      }
+    >
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Estado</Text>
+
+        {savedEndpoint ? (
+          <View style={styles.summary}>
+            <View style={styles.summaryRow}>
+              <Ionicons name="cloud-upload-outline" size={16} color={COLORS.textSecondary} />
+              <Text style={styles.summaryText}>
+                {status?.pending ?? 0} cambios pendientes de enviar
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Ionicons name="time-outline" size={16} color={COLORS.textSecondary} />
+              <Text style={styles.summaryText}>
+                Última sincronización:{' '}
+                {status?.lastSyncAt ? formatDate(status.lastSyncAt) : 'nunca'}
+              </Text>
+            </View>
+            {status && status.failing > 0 && (
+              <View style={styles.summaryRow}>
+                <Ionicons name="warning-outline" size={16} color={COLORS.warning} />
+                <Text style={styles.summaryText}>
+                  {status.failing} cambios no se pudieron enviar y se reintentarán
+                  {status.lastError ? ` (${status.lastError})` : ''}
+                </Text>
+              </View>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.helpText}>
+            La sincronización está desactivada. Los registros se guardan solo en
+            este dispositivo.
+          </Text>
+        )}
+
+        <Button
+          title="Sincronizar ahora"
+          onPress={handleSync}
+          loading={isSyncing}
+          disabled={!savedEndpoint}
+        />
+      </Card>
+
+      {canManageSettings && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Servidor</Text>
+          <Input
+            label="Dirección del servidor"
+            placeholder="https://ejemplo.com/api"
+            value={endpoint}
+            onChangeText={setEndpoint}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Text style={styles.helpText}>
+            Déjalo vacío para desactivar la sincronización. Al cambiar de servidor
+            se vuelven a descargar todos los registros.
+          </Text>
+          <Button
+            title="Guardar"
+            onPress={handleSaveEndpoint}
+            loading={isSaving}
+            disabled={endpoint.trim() === (savedEndpoint ?? '')}
+            variant="outline"
+          />
+        </Card>
+      )}
+
+      {conflicts.length > 0 && (
+        <>
+          <Text style={styles.listTitle}>Conflictos</Text>
+          <Text style={styles.helpText}>
+            Estos clientes se editaron aquí y en otro dispositivo a la vez. Se
+            conservó la versión editada más recientemente.
+          </Text>
+          {conflicts.map(renderConflict)}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  listTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  helpText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  summary: {
+    marginBottom: SPACING.md,
+    gap: SPACING.xs,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  conflictTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  version: {
+    marginTop: SPACING.sm,
+    padding: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  versionLabel: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  winnerBadge: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  versionText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  versionMeta: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  conflictButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,314 @@
+import { Button, Card } from '@/src/components/ui';
+import {
+  emptyTrash,
+  getDeletedRecords,
+  getTrashRetentionDays,
+  purgeRecord,
+  restoreRecord,
+} from '@/src/services/database.service';
+import { DuplicateRecordError, getErrorMessage } from '@/src/services/errors';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { ClientRecord } from '@/src/types';
+import { COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
+import { getRecordOwnerScope, hasPermission } from '@/src/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+export default function TrashScreen() {
+  const { user } = useAuthStore();
+  const [records, setRecords] = useState<ClientRecord[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      const [deleted, days] = await Promise.all([
+        getDeletedRecords(getRecordOwnerScope(user)),
+        getTrashRetentionDays(),
+      ]);
+      setRecords(deleted);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'No se pudo cargar la papelera');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash]),
+  );
+
+  if (!hasPermission(user, 'records:delete')) {
+    return <Redirect href="/(auth)/records" />;
+  }
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadTrash();
+  };
+
+  const handleRestore = async (record: ClientRecord) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      const restored = await restoreRecord(record.id, record.userId, user.id);
+
+      if (restored) {
+        setRecords((prev) => prev.filter((r) => r.id !== record.id));
+      }
+    } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        Alert.alert(
+          'No se pudo restaurar',
+          `Ya existe otro registro con el RUC ${record.ruc} (#${error.existing.id})`,
+        );
+        return;
+      }
+      console.error('Error restoring record:', error);
+      Alert.alert('Error', getErrorMessage(error, 'No se pudo restaurar el registro'));
+    }
+  };
+
+  const handlePurge = (record: ClientRecord) => {
+    if (!user) {
+      return;
+    }
+
+    Alert.alert(
+      'Eliminar Definitivamente',
+      `El registro de ${record.clientName} se eliminará para siempre.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeRecord(record.id, record.userId, user.id);
+              setRecords((prev) => prev.filter((r) => r.id !== record.id));
+            } catch (error) {
+              console.error('Error purging record:', error);
+              Alert.alert('Error', getErrorMessage(error, 'No se pudo eliminar el registro'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    if (!user) {
+      return;
+    }
+
+    Alert.alert(
+      'Vaciar Papelera',
+      `Se eliminarán para siempre ${records.length} ${records.length === 1 ? 'registro' : 'registros'}.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Vaciar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash(getRecordOwnerScope(user), user.id);
+              setRecords([]);
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Error', getErrorMessage(error, 'No se pudo vaciar la papelera'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const formatDate = (dateString: string): string => {
+    try {
+      const date = new Date(dateString);
+      return date.toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const renderItem = ({ item }: { item: ClientRecord }) => (
+    <Card style={styles.recordCard}>
+      <View style={styles.recordHeader}>
+        <View style={styles.recordInfo}>
+          <Text style={styles.recordName}>{item.clientName}</Text>
+          <Text style={styles.recordRuc}>RUC: {item.ruc}</Text>
+          {item.deletedAt && (
+            <Text style={styles.recordDeleted}>
+              Eliminado: {formatDate(item.deletedAt)}
+            </Text>
+          )}
+        </View>
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            onPress={() => handleRestore(item)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.actionButton}
+          >
+            <Ionicons name="arrow-undo-outline" size={20} color={COLORS.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handlePurge(item)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.actionButton}
+          >
+            <Ionicons name="close-circle-outline" size={20} color={COLORS.error} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Card>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="trash-bin-outline" size={64} color={COLORS.textLight} />
+      <Text style={styles.emptyTitle}>Papelera Vacía</Text>
+      <Text style={styles.emptyText}>
+        Los registros eliminados aparecerán aquí.
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {retentionDays !== null && (
+          <Text style={styles.headerText}>
+            Los registros se eliminan definitivamente después de {retentionDays}{' '}
+            días en la papelera.
+          </Text>
+        )}
+        {records.length > 0 && (
+          <Button
+            title="Vaciar Papelera"
+            onPress={handleEmptyTrash}
+            variant="danger"
+            style={styles.emptyButton}
+          />
+        )}
+      </View>
+
+      <FlatList
+        data={records}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[COLORS.primary]}
+            tintColor={COLORS.primary}
+          />
+        }
+        ListEmptyComponent={!isLoading ? renderEmpty : null}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  emptyButton: {
+    marginTop: SPACING.md,
+  },
+  listContent: {
+    padding: SPACING.md,
+    flexGrow: 1,
+  },
+  recordCard: {
+    marginBottom: SPACING.sm,
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordName: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  recordRuc: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  recordDeleted: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textLight,
+    marginTop: SPACING.xs,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionButton: {
+    padding: SPACING.xs,
+    marginLeft: SPACING.sm,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: SPACING.xxl,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
+});
@@ -0,0 +1,650 @@
+import { Button, Card, Input, PasswordStrengthMeter } from '@/src/components/ui';
+import {
+  deleteUser,
+  getAllUsers,
+  resetUserPassword,
+  setUserActive,
+  setUserRole,
+} from '@/src/services/database.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { User, UserRole } from '@/src/types';
+import { COLORS, FONT_SIZES, ROLE_LABELS, SPACING } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { getPasswordError } from '@/src/utils/validators';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type ModalMode = 'password' | 'delete' | 'role';
+
+const ROLES: UserRole[] = ['admin', 'operator', 'readonly'];
+
+export default function UsersScreen() {
+  const { user: currentUser, checkSession } = useAuthStore();
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Action modal state
+  const [modalMode, setModalMode] = useState<ModalMode | null>(null);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | undefined>();
+  const [reassignTo, setReassignTo] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManageUsers = hasPermission(currentUser, 'users:manage');
+
+  const loadUsers = async () => {
+    try {
+      const data = await getAllUsers();
+      setUsers(data);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      Alert.alert('Error', 'No se pudieron cargar los usuarios');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (canManageUsers) {
+        loadUsers();
+      }
+    }, [canManageUsers]),
+  );
+
+  if (!canManageUsers) {
+    return <Redirect href="/(auth)" />;
+  }
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadUsers();
+  };
+
+  const openModal = (mode: ModalMode, user: User) => {
+    setSelectedUser(user);
+    setModalMode(mode);
+    setNewPassword('');
+    setPasswordError(undefined);
+    setReassignTo(currentUser && currentUser.id !== user.id ? currentUser.id : null);
+  };
+
+  const closeModal = () => {
+    setModalMode(null);
+    setSelectedUser(null);
+    setNewPassword('');
+    setPasswordError(undefined);
+    setReassignTo(null);
+  };
+
+  const handleToggleActive = (user: User) => {
+    const action = user.isActive ? 'Desactivar' : 'Activar';
+
+    Alert.alert(
+      `${action} Cuenta`,
+      user.isActive
+        ? `${user.username} no podrá iniciar sesión hasta que se reactive su cuenta.`
+        : `${user.username} podrá volver a iniciar sesión.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: action,
+          style: user.isActive ? 'destructive' : 'default',
+          onPress: async () => {
+            try {
+              const success = await setUserActive(user.id, !user.isActive);
+              if (success) {
+                // Apply it to the open session now rather than at the next check
+                await checkSession();
+                await loadUsers();
+              } else {
+                Alert.alert(
+                  'No permitido',
+                  'Debe existir al menos un administrador activo',
+                );
+              }
+            } catch (error) {
+              console.error('Error updating user status:', error);
+              Alert.alert('Error', 'No se pudo actualizar la cuenta');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleChangeRole = async (role: UserRole) => {
+    if (!selectedUser) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const success = await setUserRole(selectedUser.id, role);
+      if (success) {
+        closeModal();
+        await loadUsers();
+      } else {
+        Alert.alert(
+          'No permitido',
+          'Debe existir al menos un administrador activo',
+        );
+      }
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      Alert.alert('Error', 'No se pudo cambiar el rol');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!selectedUser) {
+      return;
+    }
+
+    const error = getPasswordError(newPassword, selectedUser.username);
+    if (error) {
+      setPasswordError(error);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const success = await resetUserPassword(selectedUser.id, newPassword);
+      if (success) {
+        closeModal();
+        Alert.alert(
+          'Contraseña Restablecida',
+          `Comparte la nueva contraseña con ${selectedUser.username}.`,
+        );
+      } else {
+        Alert.alert('Error', 'No se pudo restablecer la contraseña');
+      }
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      Alert.alert('Error', 'No se pudo restablecer la contraseña');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedUser || !currentUser || reassignTo === null) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const success = await deleteUser(selectedUser.id, reassignTo, currentUser.id);
+      if (success) {
+        closeModal();
+        await loadUsers();
+        Alert.alert('Eliminado', 'La cuenta ha sido eliminada');
+      } else {
+        Alert.alert(
+          'No permitido',
+          'No se puede eliminar la cuenta. Debe existir al menos un administrador activo.',
+        );
+      }
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      Alert.alert('Error', 'No se pudo eliminar la cuenta');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null): string => {
+    if (!dateString) {
+      return 'Nunca';
+    }
+
+    try {
+      // SQLite CURRENT_TIMESTAMP is UTC without a zone designator
+      const date = new Date(dateString.replace(' ', 'T') + 'Z');
+      return date.toLocaleString('es-PE', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const renderItem = ({ item }: { item: User }) => {
+    const isSelf = item.id === currentUser?.id;
+
+    return (
+      <Card style={styles.userCard}>
+        <View style={styles.userHeader}>
+          <View style={styles.userTitle}>
+            <Text style={styles.username}>
+              {item.username}
+              {isSelf ? ' (tú)' : ''}
+            </Text>
+            <View style={styles.badges}>
+              <View style={styles.roleBadge}>
+                <Text style={styles.roleBadgeText}>{ROLE_LABELS[item.role]}</Text>
+              </View>
+              {!item.isActive && (
+                <View style={styles.inactiveBadge}>
+                  <Text style={styles.inactiveBadgeText}>Inactiva</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.userBody}>
+          <View style={styles.userRow}>
+            <Ionicons name="calendar-outline" size={16} color={COLORS.textSecondary} />
+            <Text style={styles.userLabel}>Creado:</Text>
+            <Text style={styles.userValue}>{formatDate(item.createdAt)}</Text>
+          </View>
+          <View style={styles.userRow}>
+            <Ionicons name="log-in-outline" size={16} color={COLORS.textSecondary} />
+            <Text style={styles.userLabel}>Último acceso:</Text>
+            <Text style={styles.userValue}>{formatDate(item.lastLoginAt)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.userActions}>
+          <TouchableOpacity
+            onPress={() => openModal('role', item)}
+            style={styles.userAction}
+            disabled={isSelf}
+          >
+            <Ionicons
+              name="shield-outline"
+              size={20}
+              color={isSelf ? COLORS.disabled : COLORS.primary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => openModal('password', item)}
+            style={styles.userAction}
+          >
+            <Ionicons name="key-outline" size={20} color={COLORS.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleToggleActive(item)}
+            style={styles.userAction}
+            disabled={isSelf}
+          >
+            <Ionicons
+              name={item.isActive ? 'lock-closed-outline' : 'lock-open-outline'}
+              size={20}
+              color={isSelf ? COLORS.disabled : COLORS.warning}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => openModal('delete', item)}
+            style={styles.userAction}
+            disabled={isSelf}
+          >
+            <Ionicons
+              name="trash-outline"
+              size={20}
+              color={isSelf ? COLORS.disabled : COLORS.error}
+            />
+          </TouchableOpacity>
+        </View>
+      </Card>
+    );
+  };
+
+  const modalTitles: Record<ModalMode, string> = {
+    password: 'Restablecer Contraseña',
+    delete: 'Eliminar Cuenta',
+    role: 'Cambiar Rol',
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Usuarios</Text>
+        <Text style={styles.headerCount}>
+          {users.length} {users.length === 1 ? 'cuenta' : 'cuentas'}
+        </Text>
+      </View>
+
+      <FlatList
+        data={users}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[COLORS.primary]}
+            tintColor={COLORS.primary}
+          />
+        }
+        ListEmptyComponent={
+          !isLoading ? <Text style={styles.emptyText}>Sin usuarios</Text> : null
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      <Modal
+        visible={modalMode !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeModal}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {modalMode ? modalTitles[modalMode] : ''}
+              </Text>
+              <TouchableOpacity onPress={closeModal}>
+                <Ionicons name="close" size={24} color={COLORS.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              {selectedUser && (
+                <Text style={styles.modalSubtitle}>
+                  Cuenta: {selectedUser.username}
+                </Text>
+              )}
+
+              {modalMode === 'role' &&
+                ROLES.map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.option,
+                      selectedUser?.role === role && styles.optionSelected,
+                    ]}
+                    onPress={() => handleChangeRole(role)}
+                    disabled={isSaving}
+                  >
+                    <Text style={styles.optionText}>{ROLE_LABELS[role]}</Text>
+                    {selectedUser?.role === role && (
+                      <Ionicons name="checkmark" size={20} color={COLORS.primary} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+
+              {modalMode === 'password' && (
+                <Input
+                  label="Nueva contraseña"
+                  placeholder="Ingresa la nueva contraseña"
+                  value={newPassword}
+                  onChangeText={(text) => {
+                    setNewPassword(text);
+                    setPasswordError(undefined);
+                  }}
+                  secureTextEntry
+                  error={passwordError}
+                  footer={
+                    <PasswordStrengthMeter
+                      password={newPassword}
+                      username={selectedUser?.username}
+                    />
+                  }
+                />
+              )}
+
+              {modalMode === 'delete' && (
+                <>
+                  <Text style={styles.modalNote}>
+                    Los registros de esta cuenta se transferirán a:
+                  </Text>
+                  {users
+                    .filter((u) => u.id !== selectedUser?.id)
+                    .map((u) => (
+                      <TouchableOpacity
+                        key={u.id}
+                        style={[
+                          styles.option,
+                          reassignTo === u.id && styles.optionSelected,
+                        ]}
+                        onPress={() => setReassignTo(u.id)}
+                      >
+                        <Text style={styles.optionText}>{u.username}</Text>
+                        {reassignTo === u.id && (
+                          <Ionicons name="checkmark" size={20} color={COLORS.primary} />
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                </>
+              )}
+            </ScrollView>
+
+            {modalMode !== 'role' && (
+              <View style={styles.modalActions}>
+                <Button
+                  title="Cancelar"
+                  onPress={closeModal}
+                  variant="outline"
+                  style={styles.modalButton}
+                />
+                {modalMode === 'password' ? (
+                  <Button
+                    title="Guardar"
+                    onPress={handleResetPassword}
+                    loading={isSaving}
+                    style={styles.modalButton}
+                  />
+                ) : (
+                  <Button
+                    title="Eliminar"
+                    onPress={handleDelete}
+                    loading={isSaving}
+                    disabled={reassignTo === null}
+                    variant="danger"
+                    style={styles.modalButton}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  headerCount: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    backgroundColor: COLORS.background,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+  },
+  listContent: {
+    padding: SPACING.md,
+    flexGrow: 1,
+  },
+  userCard: {
+    marginBottom: SPACING.md,
+  },
+  userHeader: {
+    marginBottom: SPACING.sm,
+    paddingBottom: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  userTitle: {
+    gap: SPACING.xs,
+  },
+  username: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  badges: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  roleBadge: {
+    backgroundColor: COLORS.primary,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  roleBadgeText: {
+    color: COLORS.surface,
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  inactiveBadge: {
+    backgroundColor: COLORS.error,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  inactiveBadgeText: {
+    color: COLORS.surface,
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  userBody: {
+    gap: SPACING.sm,
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  userLabel: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  userValue: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+    flex: 1,
+    fontWeight: '500',
+  },
+  userActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  userAction: {
+    padding: SPACING.xs,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  // Modal styles
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: COLORS.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  modalTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  modalContent: {
+    padding: SPACING.lg,
+  },
+  modalSubtitle: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  modalNote: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 8,
+    marginBottom: SPACING.sm,
+  },
+  optionSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: '#e0f2fe',
+  },
+  optionText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    padding: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  modalButton: {
+    flex: 1,
+  },
+});
@@ -14,7 +14,12 @@ export default function RootLayout() {
         <Stack.Screen name="index" />
         <Stack.Screen name="login" />
         <Stack.Screen name="register" />
+        <Stack.Screen name="setup" />
         <Stack.Screen name="(auth)" />
+        <Stack.Screen
+          name="diagnostics"
+          options={{ headerShown: true, title: 'Diagnóstico' }}
+        />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
@@ -0,0 +1,307 @@
+import { Button, Card } from '@/src/components/ui';
+import { getDatabaseDiagnostics, salvageDatabase } from '@/src/services/recovery.service';
+import { useAuthStore } from '@/src/stores/auth.store';
+import type { DatabaseDiagnostics, SalvageReport } from '@/src/types';
+import { COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
+import { hasPermission } from '@/src/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+const TABLE_LABELS: Record<string, string> = {
+  users: 'Usuarios',
+  records: 'Registros',
+  record_history: 'Historial de cambios',
+  app_settings: 'Configuración',
+  login_attempts: 'Intentos de inicio de sesión',
+  record_outbox: 'Cambios por sincronizar',
+  sync_conflicts: 'Conflictos de sincronización',
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeSalvage(report: SalvageReport): string {
+  const recovered = report.tables.reduce((sum, table) => sum + table.recovered, 0);
+  const lost = report.tables.reduce((sum, table) => sum + (table.lost ?? 0), 0);
+  const unreadable = report.tables.filter((table) => table.lost === null);
+
+  const lines = [`Se recuperaron ${recovered} filas.`];
+  if (lost > 0) {
+    lines.push(`${lost} filas estaban dañadas y se perdieron.`);
+  }
+  if (unreadable.length > 0) {
+    lines.push(
+      `No se pudo leer: ${unreadable.map((table) => TABLE_LABELS[table.table] ?? table.table).join(', ')}.`,
+    );
+  }
+  return lines.join('\n\n');
+}
+
+export default function DiagnosticsScreen() {
+  const { user, databaseCorrupt, initialize, resetLocalData } = useAuthStore();
+  const [diagnostics, setDiagnostics] = useState<DatabaseDiagnostics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  const canView = databaseCorrupt || hasPermission(user, 'settings:manage');
+
+  const loadDiagnostics = async () => {
+    try {
+      setDiagnostics(await getDatabaseDiagnostics());
+    } catch (error) {
+      console.error('Error reading diagnostics:', error);
+      Alert.alert('Error', 'No se pudo leer la base de datos');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (canView) {
+      loadDiagnostics();
+    }
+  }, [canView]);
+
+  if (!canView) {
+    return <Redirect href="/" />;
+  }
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadDiagnostics();
+  };
+
+  const runSalvage = async () => {
+    setIsRecovering(true);
+    try {
+      const report = await salvageDatabase();
+      await initialize();
+
+      Alert.alert('Recuperación completada', describeSalvage(report), [
+        { text: 'OK', onPress: () => router.replace('/') },
+      ]);
+    } catch (error) {
+      console.error('Error salvaging database:', error);
+      Alert.alert(
+        'No se pudo recuperar',
+        'La base de datos no se modificó. Puedes intentarlo de nuevo o borrar los datos y restaurar una copia de seguridad.',
+      );
+      loadDiagnostics();
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  const handleSalvage = () => {
+    Alert.alert(
+      'Recuperar Datos',
+      'Se creará una base de datos nueva con todas las filas que todavía se puedan leer. Las filas dañadas se perderán.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Recuperar', onPress: runSalvage },
+      ],
+    );
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Borrar Datos Locales',
+      'Se eliminarán todos los registros y usuarios de este dispositivo. Luego podrás crear un administrador y restaurar una copia de seguridad.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Borrar',
+          style: 'destructive',
+          onPress: async () => {
+            await resetLocalData();
+            router.replace('/');
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  const isDamaged = databaseCorrupt || (diagnostics?.problems.length ?? 0) > 0;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          colors={[COLORS.primary]}
+        />
+      }
+    >
+      <Card style={styles.card}>
+        <View style={styles.statusRow}>
+          <Ionicons
+            name={isDamaged ? 'warning' : 'checkmark-circle'}
+            size={32}
+            color={isDamaged ? COLORS.error : COLORS.success}
+          />
+          <Text style={styles.statusTitle}>
+            {isDamaged ? 'Se encontraron problemas' : 'Base de datos íntegra'}
+          </Text>
+        </View>
+        {diagnostics?.problems.map((problem, index) => (
+          <Text key={index} style={styles.problemText}>
+            {problem}
+          </Text>
+        ))}
+      </Card>
+
+      {diagnostics && (
+        <>
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Archivo</Text>
+            <View style={styles.row}>
+              <Text style={styles.label}>Nombre</Text>
+              <Text style={styles.value}>{diagnostics.fileName}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>Tamaño</Text>
+              <Text style={styles.value}>{formatFileSize(diagnostics.fileSize)}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>Versión del esquema</Text>
+              <Text style={styles.value}>
+                {diagnostics.schemaVersion ?? 'ilegible'} de {diagnostics.latestSchemaVersion}
+              </Text>
+            </View>
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Tablas</Text>
+            {diagnostics.tables.map(({ table, rows }) => (
+              <View key={table} style={styles.row}>
+                <Text style={styles.label}>{TABLE_LABELS[table] ?? table}</Text>
+                <Text style={[styles.value, rows === null && styles.unreadable]}>
+                  {rows === null ? 'ilegible' : rows}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        </>
+      )}
+
+      {isDamaged && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Recuperación</Text>
+          <Text style={styles.helpText}>
+            Recuperar copia las filas que todavía se pueden leer a una base de datos
+            nueva y reemplaza la dañada. Si no funciona, borra los datos y restaura
+            una copia de seguridad.
+          </Text>
+          <Button
+            title="Recuperar datos"
+            onPress={handleSalvage}
+            loading={isRecovering}
+            style={styles.button}
+          />
+          <Button
+            title="Borrar datos y empezar de nuevo"
+            onPress={handleReset}
+            variant="danger"
+            disabled={isRecovering}
+            style={styles.button}
+          />
+        </Card>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  statusTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  problemText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.xs,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  value: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '500',
+    color: COLORS.text,
+  },
+  unreadable: {
+    color: COLORS.error,
+  },
+  helpText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  button: {
+    marginTop: SPACING.sm,
+  },
+});
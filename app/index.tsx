@@ -1,11 +1,23 @@
 import { useEffect } from 'react';
-import { Redirect } from 'expo-router';
-import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { View, Text, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '@/src/components/ui';
 import { useAuthStore } from '@/src/stores/auth.store';
-import { COLORS } from '@/src/utils/constants';
+import { COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
 
 export default function Index() {
-  const { isAuthenticated, isInitialized, initialize } = useAuthStore();
+  const {
+    isAuthenticated,
+    isInitialized,
+    isLoading,
+    needsSetup,
+    databaseKeyError,
+    databaseCorrupt,
+    databaseTooNew,
+    initialize,
+    resetLocalData,
+  } = useAuthStore();
 
   useEffect(() => {
     initialize();
@@ -20,6 +32,105 @@ export default function Index() {
     );
   }
 
+  const handleReset = () => {
+    Alert.alert(
+      'Borrar Datos Locales',
+      'Se eliminarán todos los registros y usuarios de este dispositivo. Luego podrás crear un administrador y restaurar una copia de seguridad.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Borrar', style: 'destructive', onPress: resetLocalData },
+      ],
+    );
+  };
+
+  // The database was migrated by a newer version of the app; this version
+  // can't read it, and logging in would only fail
+  if (databaseTooNew) {
+    return (
+      <View style={[styles.container, styles.errorContainer]}>
+        <Ionicons name="cloud-download-outline" size={64} color={COLORS.warning} />
+        <Text style={styles.errorTitle}>Actualiza la aplicación</Text>
+        <Text style={styles.errorText}>
+          Los datos de este dispositivo fueron guardados por una versión más
+          reciente de la app. Instala la última versión para seguir usándolos.
+        </Text>
+        <Button
+          title="Reintentar"
+          onPress={initialize}
+          loading={isLoading}
+          style={styles.errorButton}
+        />
+      </View>
+    );
+  }
+
+  // The integrity check failed; recovery happens on the diagnostics screen
+  if (databaseCorrupt) {
+    return (
+      <View style={[styles.container, styles.errorContainer]}>
+        <Ionicons name="warning" size={64} color={COLORS.error} />
+        <Text style={styles.errorTitle}>La base de datos está dañada</Text>
+        <Text style={styles.errorText}>
+          El archivo de datos de este dispositivo tiene errores y la app no puede
+          usarlo. Puedes intentar recuperar los datos que todavía se puedan leer.
+        </Text>
+        <Button
+          title="Diagnóstico y recuperación"
+          onPress={() => router.push('/diagnostics')}
+          disabled={isLoading}
+          style={styles.errorButton}
+        />
+        <Button
+          title="Reintentar"
+          onPress={initialize}
+          loading={isLoading}
+          variant="outline"
+          style={styles.errorButton}
+        />
+        <Button
+          title="Borrar datos y empezar de nuevo"
+          onPress={handleReset}
+          variant="danger"
+          disabled={isLoading}
+          style={styles.errorButton}
+        />
+      </View>
+    );
+  }
+
+  // The encrypted database can't be opened without its key
+  if (databaseKeyError) {
+    return (
+      <View style={[styles.container, styles.errorContainer]}>
+        <Ionicons name="lock-closed" size={64} color={COLORS.error} />
+        <Text style={styles.errorTitle}>No se puede abrir la base de datos</Text>
+        <Text style={styles.errorText}>
+          Los datos de este dispositivo están cifrados y no se encontró la clave
+          para leerlos. Esto puede ocurrir si la app se restauró desde otro
+          dispositivo. Los datos no se pueden recuperar sin la clave original.
+        </Text>
+        <Button
+          title="Reintentar"
+          onPress={initialize}
+          loading={isLoading}
+          style={styles.errorButton}
+        />
+        <Button
+          title="Borrar datos y empezar de nuevo"
+          onPress={handleReset}
+          variant="danger"
+          disabled={isLoading}
+          style={styles.errorButton}
+        />
+      </View>
+    );
+  }
+
+  // First launch: create the initial admin
+  if (needsSetup) {
+    return <Redirect href="/setup" />;
+  }
+
   // Redirect based on auth state
   if (isAuthenticated) {
     return <Redirect href="/(auth)" />;
@@ -35,4 +146,25 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: COLORS.background,
   },
+  errorContainer: {
+    padding: SPACING.lg,
+  },
+  errorTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.text,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.lg,
+  },
+  errorButton: {
+    alignSelf: 'stretch',
+    marginTop: SPACING.sm,
+  },
 });
@@ -1,8 +1,8 @@
 import { Button, Input } from '@/src/components/ui';
 import { useAuthStore } from '@/src/stores/auth.store';
 import { COLORS, FONT_SIZES, SPACING } from '@/src/utils/constants';
-import { router } from 'expo-router';
-import React, { useState } from 'react';
+import { Redirect, router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
 import {
   Alert,
   KeyboardAvoidingView,
@@ -21,7 +21,54 @@ export default function LoginScreen() {
     password?: string;
   }>({});
 
-  const { login, isLoading } = useAuthStore();
+  const {
+    login,
+    isLoading,
+    loginRetryAt,
+    sessionExpired,
+    sessionRevoked,
+    needsSetup,
+  } = useAuthStore();
+  const [remainingMs, setRemainingMs] = useState(0);
+
+  // Count down the throttle window while the typed username is throttled;
+  // other accounts on a shared device can still log in
+  const retryAt =
+    loginRetryAt && loginRetryAt.username === username.trim()
+      ? loginRetryAt.retryAt
+      : null;
+
+  useEffect(() => {
+    if (!retryAt) {
+      setRemainingMs(0);
+      return;
+    }
+
+    const tick = () => setRemainingMs(Math.max(0, retryAt - Date.now()));
+    tick();
+
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const isThrottled = remainingMs > 0;
+
+  // No accounts yet: the first admin must be created
+  if (needsSetup) {
+    return <Redirect href="/setup" />;
+  }
+
+  const formatRemaining = (ms: number): string => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+
+    if (minutes === 0) {
+      return `${seconds} s`;
+    }
+
+    return `${minutes}:${seconds.toString().padStart(2, '0')} min`;
+  };
 
   const validate = (): boolean => {
     const newErrors: { username?: string; password?: string } = {};
@@ -51,6 +98,12 @@ export default function LoginScreen() {
 
     if (success) {
       router.replace('/(auth)');
+    } else if (useAuthStore.getState().loginRetryAt?.username === username.trim()) {
+      Alert.alert(
+        'Demasiados intentos',
+        'Se bloquearon temporalmente los intentos de inicio de sesión. Espera antes de volver a intentarlo.',
+        [{ text: 'OK' }],
+      );
     } else {
       Alert.alert(
         'Error de autenticación',
@@ -75,6 +128,17 @@ export default function LoginScreen() {
         </View>
 
         <View style={styles.form}>
+          {sessionExpired && (
+            <Text style={styles.sessionExpiredText}>
+              Tu sesión expiró. Inicia sesión nuevamente.
+            </Text>
+          )}
+          {sessionRevoked && (
+            <Text style={styles.sessionExpiredText}>
+              Tu cuenta ya no está activa. Contacta a un administrador.
+            </Text>
+          )}
+
           <Input
             label="Usuario"
             placeholder="Ingresa tu usuario"
@@ -94,10 +158,18 @@ export default function LoginScreen() {
             error={errors.password}
           />
 
+          {isThrottled && (
+            <Text style={styles.throttleText}>
+              Demasiados intentos fallidos. Intenta de nuevo en{' '}
+              {formatRemaining(remainingMs)}.
+            </Text>
+          )}
+
           <Button
             title="Iniciar Sesión"
             onPress={handleLogin}
             loading={isLoading}
+            disabled={isThrottled}
             style={styles.button}
           />
 
@@ -158,6 +230,17 @@ const styles = StyleSheet.create({
   button: {
     marginTop: SPACING.md,
   },
+  sessionExpiredText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  throttleText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    textAlign: 'center',
+  },
   footer: {
     marginTop: SPACING.xl,
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -9,9 +9,12 @@ import {
   Alert,
 } from 'react-native';
 import { router } from 'expo-router';
-import { Button, Input } from '@/src/components/ui';
+import { Button, Input, PasswordStrengthMeter } from '@/src/components/ui';
+import { isSelfRegistrationEnabled } from '@/src/services/database.service';
+import { getErrorMessage } from '@/src/services/errors';
 import { useAuthStore } from '@/src/stores/auth.store';
 import { COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
+import { getPasswordError, getUsernameError } from '@/src/utils/validators';
 
 export default function RegisterScreen() {
   const [username, setUsername] = useState('');
@@ -23,8 +26,21 @@ export default function RegisterScreen() {
     confirmPassword?: string;
   }>({});
 
+  const [registrationEnabled, setRegistrationEnabled] = useState<
+    boolean | null
+  >(null);
+
   const { register, isLoading } = useAuthStore();
 
+  useEffect(() => {
+    isSelfRegistrationEnabled()
+      .then(setRegistrationEnabled)
+      .catch((error) => {
+        console.error('Error loading registration setting:', error);
+        setRegistrationEnabled(false);
+      });
+  }, []);
+
   const validate = (): boolean => {
     const newErrors: {
       username?: string;
@@ -33,23 +49,15 @@ export default function RegisterScreen() {
     } = {};
 
     // Validate username
-    if (!username.trim()) {
-      newErrors.username = 'El usuario es requerido';
-    } else if (username.trim().length < 3) {
-      newErrors.username = 'El usuario debe tener al menos 3 caracteres';
-    } else if (username.trim().length > 50) {
-      newErrors.username = 'El usuario no puede exceder 50 caracteres';
-    } else if (!/^[a-zA-Z0-9_]+$/.test(username.trim())) {
-      newErrors.username = 'Solo se permiten letras, números y guion bajo';
+    const usernameError = getUsernameError(username);
+    if (usernameError) {
+      newErrors.username = usernameError;
     }
 
     // Validate password
-    if (!password) {
-      newErrors.password = 'La contraseña es requerida';
-    } else if (password.length < 4) {
-      newErrors.password = 'La contraseña debe tener al menos 4 caracteres';
-    } else if (password.length > 100) {
-      newErrors.password = 'La contraseña no puede exceder 100 caracteres';
+    const passwordError = getPasswordError(password, username);
+    if (passwordError) {
+      newErrors.password = passwordError;
     }
 
     // Validate confirm password
@@ -68,7 +76,17 @@ export default function RegisterScreen() {
       return;
     }
 
-    const success = await register(username.trim(), password);
+    let success: boolean;
+    try {
+      success = await register(username.trim(), password);
+    } catch (error) {
+      Alert.alert(
+        'Error de Registro',
+        getErrorMessage(error, 'No se pudo crear la cuenta. Intente nuevamente.'),
+        [{ text: 'OK' }],
+      );
+      return;
+    }
 
     if (success) {
       Alert.alert(
@@ -84,7 +102,7 @@ export default function RegisterScreen() {
     } else {
       Alert.alert(
         'Error de Registro',
-        'El nombre de usuario ya está en uso. Por favor, elige otro.',
+        'El registro de nuevas cuentas está deshabilitado. Solicita una cuenta a un administrador.',
         [{ text: 'OK' }]
       );
     }
@@ -108,66 +126,85 @@ export default function RegisterScreen() {
           <Text style={styles.subtitle}>Regístrate para comenzar</Text>
         </View>
 
-        <View style={styles.form}>
-          <Input
-            label="Usuario"
-            placeholder="Elige un nombre de usuario"
-            value={username}
-            onChangeText={(text) => {
-              setUsername(text);
-              if (errors.username) {
-                setErrors((prev) => ({ ...prev, username: undefined }));
-              }
-            }}
-            autoCapitalize="none"
-            autoCorrect={false}
-            error={errors.username}
-          />
-
-          <Input
-            label="Contraseña"
-            placeholder="Crea una contraseña"
-            value={password}
-            onChangeText={(text) => {
-              setPassword(text);
-              if (errors.password) {
-                setErrors((prev) => ({ ...prev, password: undefined }));
-              }
-            }}
-            secureTextEntry
-            error={errors.password}
-          />
-
-          <Input
-            label="Confirmar Contraseña"
-            placeholder="Repite tu contraseña"
-            value={confirmPassword}
-            onChangeText={(text) => {
-              setConfirmPassword(text);
-              if (errors.confirmPassword) {
-                setErrors((prev) => ({ ...prev, confirmPassword: undefined }));
+        {registrationEnabled === false ? (
+          <View style={styles.form}>
+            <Text style={styles.disabledText}>
+              El registro de nuevas cuentas está deshabilitado. Solicita una
+              cuenta a un administrador.
+            </Text>
+            <Button
+              title="Volver al inicio de sesión"
+              onPress={handleGoToLogin}
+              variant="outline"
+              style={styles.button}
+            />
+          </View>
+        ) : (
+          <View style={styles.form}>
+            <Input
+              label="Usuario"
+              placeholder="Elige un nombre de usuario"
+              value={username}
+              onChangeText={(text) => {
+                setUsername(text);
+                if (errors.username) {
+                  setErrors((prev) => ({ ...prev, username: undefined }));
+                }
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              error={errors.username}
+            />
+
+            <Input
+              label="Contraseña"
+              placeholder="Crea una contraseña"
+              value={password}
+              onChangeText={(text) => {
+                setPassword(text);
+                if (errors.password) {
+                  setErrors((prev) => ({ ...prev, password: undefined }));
+                }
+              }}
+              secureTextEntry
+              error={errors.password}
+              footer={
+                <PasswordStrengthMeter password={password} username={username} />
               }
-            }}
-            secureTextEntry
-            error={errors.confirmPassword}
-          />
-
-          <Button
-            title="Registrarme"
-            onPress={handleRegister}
-            loading={isLoading}
-            style={styles.button}
-          />
-
-          <View style={styles.loginLinkContainer}>
-            <Text style={styles.loginText}>
-              ¿Ya tienes cuenta?{' '}
-              <Text style={styles.link} onPress={handleGoToLogin}>
-                Inicia sesión
+            />
+
+            <Input
+              label="Confirmar Contraseña"
+              placeholder="Repite tu contraseña"
+              value={confirmPassword}
+              onChangeText={(text) => {
+                setConfirmPassword(text);
+                if (errors.confirmPassword) {
+                  setErrors((prev) => ({ ...prev, confirmPassword: undefined }));
+                }
+              }}
+              secureTextEntry
+              error={errors.confirmPassword}
+            />
+
+            <Button
+              title="Registrarme"
+              onPress={handleRegister}
+              loading={isLoading}
+              disabled={registrationEnabled === null}
+              style={styles.button}
+            />
+
+            <View style={styles.loginLinkContainer}>
+              <Text style={styles.loginText}>
+                ¿Ya tienes cuenta?{' '}
+                <Text style={styles.link} onPress={handleGoToLogin}>
+                  Inicia sesión
+                </Text>
               </Text>
-            </Text>
+            </View>
           </View>
-        </View>
+        )}
 
         <View style={styles.footer}>
           <Text style={styles.footerText}>
@@ -216,6 +253,12 @@ const styles = StyleSheet.create({
   button: {
     marginTop: SPACING.md,
   },
+  disabledText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
   loginLinkContainer: {
     marginTop: SPACING.lg,
     alignItems: 'center',
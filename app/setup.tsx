@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { Button, Input, PasswordStrengthMeter } from '@/src/components/ui';
+import { useAuthStore } from '@/src/stores/auth.store';
+import { APP_NAME, COLORS, SPACING, FONT_SIZES } from '@/src/utils/constants';
+import { getPasswordError, getUsernameError } from '@/src/utils/validators';
+
+export default function SetupScreen() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{
+    username?: string;
+    password?: string;
+    confirmPassword?: string;
+  }>({});
+
+  const { completeSetup, isLoading, needsSetup, isInitialized } = useAuthStore();
+
+  // Setup only runs once, on an empty database
+  if (isInitialized && !needsSetup) {
+    return <Redirect href="/" />;
+  }
+
+  const validate = (): boolean => {
+    const newErrors: {
+      username?: string;
+      password?: string;
+      confirmPassword?: string;
+    } = {};
+
+    const usernameError = getUsernameError(username);
+    if (usernameError) {
+      newErrors.username = usernameError;
+    }
+
+    const passwordError = getPasswordError(password, username);
+    if (passwordError) {
+      newErrors.password = passwordError;
+    }
+
+    if (!confirmPassword) {
+      newErrors.confirmPassword = 'Confirma tu contraseña';
+    } else if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Las contraseñas no coinciden';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSetup = async () => {
+    if (!validate()) {
+      return;
+    }
+
+    const success = await completeSetup(username.trim(), password);
+
+    if (success) {
+      router.replace('/(auth)');
+    } else {
+      Alert.alert(
+        'Error de Configuración',
+        'No se pudo crear la cuenta de administrador. Si ya existe una cuenta, inicia sesión.',
+        [{ text: 'OK', onPress: () => router.replace('/login') }],
+      );
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>Bienvenido a {APP_NAME}</Text>
+          <Text style={styles.subtitle}>
+            Crea la cuenta de administrador para empezar a usar la aplicación
+            en este dispositivo.
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <Input
+            label="Usuario administrador"
+            placeholder="Elige un nombre de usuario"
+            value={username}
+            onChangeText={(text) => {
+              setUsername(text);
+              if (errors.username) {
+                setErrors((prev) => ({ ...prev, username: undefined }));
+              }
+            }}
+            autoCapitalize="none"
+            autoCorrect={false}
+            error={errors.username}
+          />
+
+          <Input
+            label="Contraseña"
+            placeholder="Crea una contraseña"
+            value={password}
+            onChangeText={(text) => {
+              setPassword(text);
+              if (errors.password) {
+                setErrors((prev) => ({ ...prev, password: undefined }));
+              }
+            }}
+            secureTextEntry
+            error={errors.password}
+            footer={
+              <PasswordStrengthMeter password={password} username={username} />
+            }
+          />
+
+          <Input
+            label="Confirmar Contraseña"
+            placeholder="Repite tu contraseña"
+            value={confirmPassword}
+            onChangeText={(text) => {
+              setConfirmPassword(text);
+              if (errors.confirmPassword) {
+                setErrors((prev) => ({ ...prev, confirmPassword: undefined }));
+              }
+            }}
+            secureTextEntry
+            error={errors.confirmPassword}
+          />
+
+          <Button
+            title="Crear Administrador"
+            onPress={handleSetup}
+            loading={isLoading}
+            style={styles.button}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: SPACING.xxl,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+    marginBottom: SPACING.sm,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  form: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: SPACING.lg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  button: {
+    marginTop: SPACING.md,
+  },
+});
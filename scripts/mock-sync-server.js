@@ -0,0 +1,110 @@
+/**
+ * In-memory sync server for trying the sync engine locally.
+ *
+ *   npm run mock-sync                  # http://0.0.0.0:4000
+ *   PORT=5000 FAIL_RATE=0.3 npm run mock-sync
+ *
+ * Every accepted change is appended to a log; the pull cursor is the log
+ * position. An upsert older than the stored copy (by updatedAt) is ignored,
+ * and a delete is final. FAIL_RATE makes that share of requests answer 503
+ * to exercise retries. Data is lost when the process stops.
+ */
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 4000;
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0;
+
+const log = []; // { seq, change }
+const latest = new Map(); // syncId -> last accepted change
+
+function accept(change) {
+  if (!change || typeof change.syncId !== 'string') {
+    return false;
+  }
+
+  const current = latest.get(change.syncId);
+  if (current?.operation === 'delete') {
+    return false;
+  }
+  if (
+    change.operation === 'upsert' &&
+    current?.record &&
+    Date.parse(current.record.updatedAt) > Date.parse(change.record?.updatedAt)
+  ) {
+    return false;
+  }
+
+  latest.set(change.syncId, change);
+  log.push({ seq: log.length + 1, change });
+  return true;
+}
+
+function changesSince(since, limit) {
+  // Only the newest entry per record is sent
+  const entries = log.filter(
+    (entry) => entry.seq > since && latest.get(entry.change.syncId) === entry.change,
+  );
+  const page = entries.slice(0, limit);
+  const cursor = page.length > 0 ? page[page.length - 1].seq : since;
+
+  return {
+    changes: page.map((entry) => entry.change),
+    cursor: String(cursor),
+    hasMore: entries.length > limit,
+  };
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (Math.random() < FAIL_RATE) {
+    console.log(`${request.method} ${url.pathname} -> 503 (simulated)`);
+    send(response, 503, { error: 'Simulated failure' });
+    return;
+  }
+
+  if (request.method === 'POST' && url.pathname === '/records/push') {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      let changes;
+      try {
+        changes = JSON.parse(body).changes;
+      } catch {
+        send(response, 400, { error: 'Invalid JSON' });
+        return;
+      }
+      if (!Array.isArray(changes)) {
+        send(response, 400, { error: 'changes must be an array' });
+        return;
+      }
+
+      const accepted = changes.filter(accept).length;
+      console.log(`push: ${changes.length} received, ${accepted} accepted`);
+      send(response, 200, { accepted });
+    });
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/records/changes') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const limit = Number(url.searchParams.get('limit')) || 200;
+    const result = changesSince(since, limit);
+    console.log(`pull since ${since}: ${result.changes.length} changes`);
+    send(response, 200, result);
+    return;
+  }
+
+  send(response, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`Mock sync server on http://0.0.0.0:${PORT} (FAIL_RATE=${FAIL_RATE})`);
+});
@@ -0,0 +1,202 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Input } from '../ui';
+import type { RecordDetails, RecordStatus } from '../../types';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  DEFAULT_RECORD_STATUS,
+  RECORD_STATUS_LABELS,
+} from '../../utils/constants';
+import {
+  getAddressError,
+  getEmailError,
+  getLocationError,
+  getNotesError,
+  getPhoneError,
+} from '../../utils/validators';
+
+export type RecordDetailsErrors = Partial<Record<keyof RecordDetails, string>>;
+
+export const EMPTY_RECORD_DETAILS: RecordDetails = {
+  address: '',
+  district: '',
+  province: '',
+  department: '',
+  phone: '',
+  email: '',
+  notes: '',
+  status: DEFAULT_RECORD_STATUS,
+};
+
+const STATUSES = Object.keys(RECORD_STATUS_LABELS) as RecordStatus[];
+
+/**
+ * Validate every detail field, returning only the ones with errors
+ */
+export function getRecordDetailsErrors(details: RecordDetails): RecordDetailsErrors {
+  const checks: [keyof RecordDetails, string | null][] = [
+    ['address', getAddressError(details.address)],
+    ['district', getLocationError(details.district)],
+    ['province', getLocationError(details.province)],
+    ['department', getLocationError(details.department)],
+    ['phone', getPhoneError(details.phone)],
+    ['email', getEmailError(details.email)],
+    ['notes', getNotesError(details.notes)],
+  ];
+
+  const errors: RecordDetailsErrors = {};
+  for (const [field, error] of checks) {
+    if (error) {
+      errors[field] = error;
+    }
+  }
+  return errors;
+}
+
+interface RecordDetailsFormProps {
+  values: RecordDetails;
+  errors: RecordDetailsErrors;
+  onChange: <K extends keyof RecordDetails>(field: K, value: RecordDetails[K]) => void;
+}
+
+export function RecordDetailsForm({ values, errors, onChange }: RecordDetailsFormProps) {
+  return (
+    <View>
+      <Input
+        label="Dirección fiscal"
+        placeholder="Av. / Jr. / Calle y número"
+        value={values.address}
+        onChangeText={(text) => onChange('address', text)}
+        error={errors.address}
+      />
+
+      <Input
+        label="Distrito"
+        placeholder="Distrito"
+        value={values.district}
+        onChangeText={(text) => onChange('district', text)}
+        autoCapitalize="words"
+        error={errors.district}
+      />
+
+      <View style={styles.row}>
+        <Input
+          label="Provincia"
+          placeholder="Provincia"
+          value={values.province}
+          onChangeText={(text) => onChange('province', text)}
+          autoCapitalize="words"
+          error={errors.province}
+          containerStyle={styles.rowItem}
+        />
+        <Input
+          label="Departamento"
+          placeholder="Departamento"
+          value={values.department}
+          onChangeText={(text) => onChange('department', text)}
+          autoCapitalize="words"
+          error={errors.department}
+          containerStyle={styles.rowItem}
+        />
+      </View>
+
+      <Input
+        label="Teléfono de contacto"
+        placeholder="Ej. 987 654 321"
+        value={values.phone}
+        onChangeText={(text) => onChange('phone', text)}
+        keyboardType="phone-pad"
+        error={errors.phone}
+      />
+
+      <Input
+        label="Correo electrónico"
+        placeholder="contacto@empresa.com"
+        value={values.email}
+        onChangeText={(text) => onChange('email', text)}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        error={errors.email}
+      />
+
+      <Input
+        label="Notas"
+        placeholder="Observaciones sobre el cliente"
+        value={values.notes}
+        onChangeText={(text) => onChange('notes', text)}
+        multiline
+        numberOfLines={3}
+        maxLength={500}
+        error={errors.notes}
+        style={styles.notesInput}
+      />
+
+      <Text style={styles.label}>Estado</Text>
+      <View style={styles.chips}>
+        {STATUSES.map((status) => {
+          const selected = values.status === status;
+          return (
+            <TouchableOpacity
+              key={status}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onChange('status', status)}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {RECORD_STATUS_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '500',
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+    fontWeight: '600',
+  },
+});
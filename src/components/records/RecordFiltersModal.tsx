@@ -0,0 +1,342 @@
+import React, { useEffect, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../ui';
+import type { RecordFilters, RecordSortOption, RucCategory, RucType } from '../../types';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  RECORD_SORT_LABELS,
+  RUC_CATEGORY_LABELS,
+  RUC_CATEGORY_PREFIXES,
+  RUC_TYPE_LABELS,
+} from '../../utils/constants';
+import { getDateError } from '../../utils/validators';
+
+export type RecordListFilters = Omit<RecordFilters, 'query'>;
+
+interface RecordFiltersModalProps {
+  visible: boolean;
+  filters: RecordListFilters;
+  onApply: (filters: RecordListFilters) => void;
+  onClose: () => void;
+}
+
+const RUC_TYPES = Object.keys(RUC_TYPE_LABELS) as RucType[];
+const RUC_CATEGORIES = Object.keys(RUC_CATEGORY_LABELS) as RucCategory[];
+const SORT_OPTIONS = Object.keys(RECORD_SORT_LABELS) as RecordSortOption[];
+
+/**
+ * Counts how many filters differ from the defaults (for a badge)
+ */
+export function countActiveFilters(filters: RecordListFilters): number {
+  let count = 0;
+  if (filters.rucTypes && filters.rucTypes.length > 0) count += 1;
+  if (filters.dateFrom || filters.dateTo) count += 1;
+  if (filters.sort && filters.sort !== 'created_desc') count += 1;
+  return count;
+}
+
+export function RecordFiltersModal({
+  visible,
+  filters,
+  onApply,
+  onClose,
+}: RecordFiltersModalProps) {
+  const [rucTypes, setRucTypes] = useState<RucType[]>([]);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [sort, setSort] = useState<RecordSortOption>('created_desc');
+  const [errors, setErrors] = useState<{ dateFrom?: string; dateTo?: string }>({});
+
+  // Start from the applied filters each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setRucTypes(filters.rucTypes ?? []);
+      setDateFrom(filters.dateFrom ?? '');
+      setDateTo(filters.dateTo ?? '');
+      setSort(filters.sort ?? 'created_desc');
+      setErrors({});
+    }
+  }, [visible, filters]);
+
+  const toggleRucType = (type: RucType) => {
+    setRucTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type],
+    );
+  };
+
+  // Shortcut that selects or clears all of a category's prefixes at once
+  const isCategorySelected = (category: RucCategory) =>
+    RUC_CATEGORY_PREFIXES[category].every((type) => rucTypes.includes(type));
+
+  const toggleCategory = (category: RucCategory) => {
+    const prefixes = RUC_CATEGORY_PREFIXES[category];
+    setRucTypes((prev) =>
+      isCategorySelected(category)
+        ? prev.filter((t) => !prefixes.includes(t))
+        : [...prev.filter((t) => !prefixes.includes(t)), ...prefixes],
+    );
+  };
+
+  const handleApply = () => {
+    const newErrors: { dateFrom?: string; dateTo?: string } = {};
+
+    const fromError = getDateError(dateFrom);
+    if (fromError) {
+      newErrors.dateFrom = fromError;
+    }
+
+    const toError = getDateError(dateTo);
+    if (toError) {
+      newErrors.dateTo = toError;
+    } else if (
+      !fromError &&
+      dateFrom.trim() &&
+      dateTo.trim() &&
+      dateTo.trim() < dateFrom.trim()
+    ) {
+      newErrors.dateTo = 'Debe ser posterior a la fecha inicial';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    onApply({
+      rucTypes,
+      dateFrom: dateFrom.trim() || undefined,
+      dateTo: dateTo.trim() || undefined,
+      sort,
+    });
+  };
+
+  const handleReset = () => {
+    setRucTypes([]);
+    setDateFrom('');
+    setDateTo('');
+    setSort('created_desc');
+    setErrors({});
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Filtros</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content}>
+            <Text style={styles.sectionTitle}>Tipo de RUC</Text>
+            <View style={styles.chips}>
+              {RUC_TYPES.map((type) => {
+                const selected = rucTypes.includes(type);
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleRucType(type)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {type} - {RUC_TYPE_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionTitle}>Tipo de contribuyente</Text>
+            <View style={styles.chips}>
+              {RUC_CATEGORIES.map((category) => {
+                const selected = isCategorySelected(category);
+                return (
+                  <TouchableOpacity
+                    key={category}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleCategory(category)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {RUC_CATEGORY_LABELS[category]} ({RUC_CATEGORY_PREFIXES[category].join(', ')})
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionTitle}>Fecha de registro</Text>
+            <View style={styles.dateRow}>
+              <Input
+                label="Desde"
+                placeholder="AAAA-MM-DD"
+                value={dateFrom}
+                onChangeText={(text) => {
+                  setDateFrom(text);
+                  setErrors((prev) => ({ ...prev, dateFrom: undefined }));
+                }}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                error={errors.dateFrom}
+                containerStyle={styles.dateInput}
+              />
+              <Input
+                label="Hasta"
+                placeholder="AAAA-MM-DD"
+                value={dateTo}
+                onChangeText={(text) => {
+                  setDateTo(text);
+                  setErrors((prev) => ({ ...prev, dateTo: undefined }));
+                }}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                error={errors.dateTo}
+                containerStyle={styles.dateInput}
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>Ordenar por</Text>
+            {SORT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={styles.sortOption}
+                onPress={() => setSort(option)}
+              >
+                <Ionicons
+                  name={sort === option ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={sort === option ? COLORS.primary : COLORS.textSecondary}
+                />
+                <Text style={styles.sortText}>{RECORD_SORT_LABELS[option]}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Button
+              title="Limpiar"
+              onPress={handleReset}
+              variant="outline"
+              style={styles.actionButton}
+            />
+            <Button
+              title="Aplicar"
+              onPress={handleApply}
+              style={styles.actionButton}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: COLORS.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  content: {
+    padding: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.lg,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  sortOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+  },
+  sortText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    padding: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { RucCategory } from '../../types';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  RUC_TYPE_LABELS,
+} from '../../utils/constants';
+import { parseRUC } from '../../utils/validators';
+
+interface RucBadgeProps {
+  ruc: string;
+}
+
+const CATEGORY_COLORS: Record<RucCategory, string> = {
+  natural: COLORS.primary,
+  special: COLORS.warning,
+  juridica: COLORS.success,
+};
+
+/**
+ * Type of a RUC, coloured by its taxpayer category, or nothing if the RUC
+ * isn't valid
+ */
+export function RucBadge({ ruc }: RucBadgeProps) {
+  const parsed = parseRUC(ruc);
+
+  if (!parsed) {
+    return null;
+  }
+
+  const color = CATEGORY_COLORS[parsed.category];
+
+  return (
+    <View style={[styles.badge, { borderColor: color }]}>
+      <Text style={[styles.text, { color }]}>
+        {RUC_TYPE_LABELS[parsed.type]}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    borderWidth: 1,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+});
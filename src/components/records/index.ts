@@ -0,0 +1,9 @@
+export { RecordFiltersModal, countActiveFilters } from './RecordFiltersModal';
+export type { RecordListFilters } from './RecordFiltersModal';
+export { RucBadge } from './RucBadge';
+export {
+  RecordDetailsForm,
+  EMPTY_RECORD_DETAILS,
+  getRecordDetailsErrors,
+} from './RecordDetailsForm';
+export type { RecordDetailsErrors } from './RecordDetailsForm';
@@ -13,12 +13,14 @@ interface InputProps extends RNTextInputProps {
   label?: string;
   error?: string;
   containerStyle?: ViewStyle;
+  footer?: React.ReactNode;
 }
 
 export function Input({
   label,
   error,
   containerStyle,
+  footer,
   style,
   ...props
 }: InputProps) {
@@ -37,6 +39,7 @@ export function Input({
         {...props}
       />
       {hasError && <Text style={styles.errorText}>{error}</Text>}
+      {footer}
     </View>
   );
 }
@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../../utils/constants';
+import { checkPasswordPolicy, getPasswordStrength } from '../../utils/validators';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  username?: string;
+}
+
+const SCORE_COLORS = [
+  COLORS.error,
+  COLORS.error,
+  COLORS.warning,
+  COLORS.success,
+  COLORS.success,
+];
+
+const SEGMENTS = 4;
+
+export function PasswordStrengthMeter({
+  password,
+  username,
+}: PasswordStrengthMeterProps) {
+  if (password.length === 0) {
+    return null;
+  }
+
+  const strength = getPasswordStrength(password, username);
+  const failures = checkPasswordPolicy(password, username);
+  const color = SCORE_COLORS[strength.score];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        {Array.from({ length: SEGMENTS }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.segment,
+              index < Math.max(1, strength.score) && { backgroundColor: color },
+            ]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color }]}>{strength.label}</Text>
+      {failures.map((failure) => (
+        <Text key={failure.code} style={styles.failure}>
+          • {failure.message}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.xs,
+  },
+  bar: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.border,
+  },
+  label: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+    marginTop: SPACING.xs,
+  },
+  failure: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+});
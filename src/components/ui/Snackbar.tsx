@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../../utils/constants';
+
+interface SnackbarProps {
+  visible: boolean;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration: number;
+  style?: ViewStyle;
+}
+
+export function Snackbar({
+  visible,
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration,
+  style,
+}: SnackbarProps) {
+  // Hide on its own after `duration`; a new message restarts the timer.
+  // Callers showing the same message again should remount it with a `key`.
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [visible, message, duration, onDismiss]);
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      {actionLabel && onAction && (
+        <TouchableOpacity onPress={onAction} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.action}>{actionLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: SPACING.md,
+    right: SPACING.md,
+    bottom: SPACING.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    backgroundColor: COLORS.text,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm + 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  message: {
+    flex: 1,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.surface,
+  },
+  action: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '700',
+    color: COLORS.snackbarAction,
+  },
+});
@@ -1,3 +1,5 @@
 export { Button } from './Button';
 export { Input } from './Input';
 export { Card } from './Card';
+export { PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { Snackbar } from './Snackbar';
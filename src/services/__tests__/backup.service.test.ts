@@ -0,0 +1,132 @@
+import {
+  closeDatabase,
+  createRecord,
+  createUser,
+  getAllRecords,
+  getDatabase,
+  getSetting,
+  setSetting,
+} from '../database.service';
+import { openEncryptedDatabase } from '../encryption.service';
+import { createBackup, InvalidBackupError, restoreBackup } from '../backup.service';
+import type { BackupArchive } from '../../types';
+import { SETTINGS_KEYS } from '../../utils/constants';
+import { openTestDatabase } from './support/sqlite-database';
+
+// password.service only needs random salts from expo-crypto
+jest.mock('expo-crypto', () => ({
+  getRandomBytesAsync: async (length: number) =>
+    new Uint8Array(jest.requireActual<typeof import('crypto')>('crypto').randomBytes(length)),
+  digestStringAsync: async () => {
+    throw new Error('Legacy hashes are not used in these tests');
+  },
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+}));
+
+// Archives are staged in an in-memory database like the app database
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: async () =>
+    jest.requireActual<typeof import('./support/sqlite-database')>('./support/sqlite-database')
+      .openTestDatabase(),
+}));
+jest.mock('expo-document-picker', () => ({}));
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+
+jest.mock('../encryption.service', () => ({
+  openEncryptedDatabase: jest.fn(),
+}));
+
+// Valid RUCs (mod 11 check digit)
+const RUC_A = '20100070970';
+const RUC_B = '20131312955';
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  jest.mocked(openEncryptedDatabase).mockImplementation(async () => openTestDatabase());
+});
+
+afterEach(async () => {
+  await closeDatabase();
+});
+
+describe('restoreBackup in replace mode', () => {
+  it('queues deletes for records the archive lacks and keeps the sync settings', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const kept = await createRecord({ userId: admin.id, ruc: RUC_A, clientName: 'Perú Norte' });
+    await setSetting(SETTINGS_KEYS.syncEndpoint, 'https://viejo.example.com');
+    await setSetting(SETTINGS_KEYS.syncCursor, 'cursor-viejo');
+    await setSetting(SETTINGS_KEYS.trashRetentionDays, '7');
+    const archive = await createBackup();
+
+    const dropped = await createRecord({ userId: admin.id, ruc: RUC_B, clientName: 'Andes Sur' });
+    await setSetting(SETTINGS_KEYS.syncEndpoint, 'https://nuevo.example.com');
+    await setSetting(SETTINGS_KEYS.syncCursor, 'cursor-nuevo');
+    await setSetting(SETTINGS_KEYS.trashRetentionDays, '30');
+
+    const database = await getDatabase();
+    const syncIdOf = async (id: number) =>
+      (await database.getFirstAsync<{ sync_id: string }>(
+        'SELECT sync_id FROM records WHERE id = ?',
+        [id],
+      ))?.sync_id;
+    const keptSyncId = await syncIdOf(kept.id);
+    const droppedSyncId = await syncIdOf(dropped.id);
+
+    await restoreBackup(archive, 'replace', admin.id);
+
+    expect((await getAllRecords(null)).map((record) => record.id)).toEqual([kept.id]);
+    expect(
+      await database.getAllAsync('SELECT sync_id, operation FROM record_outbox ORDER BY id'),
+    ).toEqual([
+      { sync_id: keptSyncId, operation: 'upsert' },
+      { sync_id: droppedSyncId, operation: 'delete' },
+    ]);
+
+    expect(await getSetting(SETTINGS_KEYS.syncEndpoint)).toBe('https://nuevo.example.com');
+    expect(await getSetting(SETTINGS_KEYS.syncCursor)).toBe('cursor-nuevo');
+    expect(await getSetting(SETTINGS_KEYS.trashRetentionDays)).toBe('7');
+  });
+
+  it.each([
+    ['an object', { text: 'Perú Norte' }],
+    ['an array', ['Perú Norte']],
+    ['a boolean', true],
+  ])('rejects %s as a column value', async (_, value) => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const archive = await createBackup();
+    const records = [
+      {
+        id: 1,
+        user_id: admin.id,
+        ruc: RUC_A,
+        client_name: value,
+        search_name: 'peru norte',
+      },
+    ];
+
+    await expect(
+      restoreBackup(
+        { ...archive, tables: { ...archive.tables, records } } as unknown as BackupArchive,
+        'replace',
+        admin.id,
+      ),
+    ).rejects.toBeInstanceOf(InvalidBackupError);
+    expect(await getAllRecords(null)).toEqual([]);
+  });
+
+  it('rejects text in an integer column', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const archive = await createBackup();
+    const records = [
+      { id: 'uno', user_id: admin.id, ruc: RUC_A, client_name: 'Perú Norte', search_name: '' },
+    ];
+
+    await expect(
+      restoreBackup({ ...archive, tables: { ...archive.tables, records } }, 'replace', admin.id),
+    ).rejects.toBeInstanceOf(InvalidBackupError);
+  });
+});
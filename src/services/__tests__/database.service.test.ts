@@ -0,0 +1,360 @@
+import {
+  changePassword,
+  closeDatabase,
+  createRecord,
+  createUser,
+  deleteOwnAccount,
+  deleteRecord,
+  deleteUser,
+  emptyTrash,
+  getDatabase,
+  getDeletedRecords,
+  getLoginThrottle,
+  getRecordById,
+  getRecordHistory,
+  getRecordsPage,
+  getSetting,
+  recordFailedLogin,
+  resetUserPassword,
+  restoreRecord,
+  setSetting,
+  updateRecord,
+  verifyCredentials,
+  withDatabaseClosed,
+} from '../database.service';
+import { openEncryptedDatabase } from '../encryption.service';
+import { DuplicateRecordError, TooManyAttemptsError } from '../errors';
+import { LOGIN_FREE_ATTEMPTS, LOGIN_LOCKOUT_ATTEMPTS } from '../../utils/constants';
+import { openTestDatabase } from './support/sqlite-database';
+
+// password.service only needs random salts from expo-crypto
+jest.mock('expo-crypto', () => ({
+  getRandomBytesAsync: async (length: number) =>
+    new Uint8Array(jest.requireActual<typeof import('crypto')>('crypto').randomBytes(length)),
+  digestStringAsync: async () => {
+    throw new Error('Legacy hashes are not used in these tests');
+  },
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+}));
+
+// The app database is a fresh in-memory one for every test
+jest.mock('../encryption.service', () => ({
+  openEncryptedDatabase: jest.fn(),
+}));
+
+const openEncryptedDatabaseMock = jest.mocked(openEncryptedDatabase);
+
+// Valid RUCs (mod 11 check digit)
+const RUC_A = '20100070970';
+const RUC_B = '20131312955';
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  openEncryptedDatabaseMock.mockReset();
+  openEncryptedDatabaseMock.mockImplementation(async () => openTestDatabase());
+});
+
+afterEach(async () => {
+  await closeDatabase();
+});
+
+// ============================================
+// Database Instance
+// ============================================
+
+describe('getDatabase', () => {
+  it('opens and migrates a single connection for concurrent callers', async () => {
+    const [first, second] = await Promise.all([getDatabase(), getDatabase()]);
+
+    expect(first).toBe(second);
+    expect(openEncryptedDatabaseMock).toHaveBeenCalledTimes(1);
+    expect(await getDatabase()).toBe(first);
+  });
+
+  it('tries again after a failed open', async () => {
+    openEncryptedDatabaseMock.mockRejectedValueOnce(new Error('keystore unavailable'));
+
+    await expect(getDatabase()).rejects.toThrow('keystore unavailable');
+    await expect(getDatabase()).resolves.toBeDefined();
+    expect(openEncryptedDatabaseMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('withDatabaseClosed', () => {
+  it('holds getDatabase until the work is done, then reopens', async () => {
+    const first = await getDatabase();
+    let finish!: () => void;
+    const maintenance = withDatabaseClosed(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+
+    const reopened = getDatabase();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(openEncryptedDatabaseMock).toHaveBeenCalledTimes(1);
+
+    finish();
+    await maintenance;
+    expect(await reopened).not.toBe(first);
+    expect(openEncryptedDatabaseMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ============================================
+// Write Queue
+// ============================================
+
+describe('plain writes', () => {
+  it('wait for a running transaction instead of being rolled back with it', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    await createRecord({ userId: user.id, ruc: RUC_A, clientName: 'Perú Norte' });
+
+    // Save a setting while the duplicate's transaction is open
+    const database = await getDatabase();
+    const withTransaction = database.withTransactionAsync.bind(database);
+    let saving: Promise<void> | undefined;
+    jest.spyOn(database, 'withTransactionAsync').mockImplementationOnce((task) =>
+      withTransaction(async () => {
+        saving = setSetting('trash_retention_days', '7');
+        await task();
+      }),
+    );
+
+    await expect(
+      createRecord({ userId: user.id, ruc: RUC_A, clientName: 'Perú Norte' }),
+    ).rejects.toBeInstanceOf(DuplicateRecordError);
+    await saving;
+
+    expect(await getSetting('trash_retention_days')).toBe('7');
+  });
+
+  it('count concurrent failed logins one by one', async () => {
+    await Promise.all([
+      recordFailedLogin('ana_perez'),
+      recordFailedLogin('ana_perez'),
+      recordFailedLogin('ana_perez'),
+    ]);
+
+    expect((await getLoginThrottle('ana_perez')).failedCount).toBe(3);
+  });
+});
+
+// ============================================
+// Record Owner Scope
+// ============================================
+
+describe('records across owners', () => {
+  it('lists every owner\'s records for a null owner and only theirs otherwise', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const operator = await createUser('operador_luis', 'Clave-Segura-2024');
+    await createRecord({ userId: admin.id, ruc: RUC_A, clientName: 'De Ana' });
+    const own = await createRecord({ userId: operator.id, ruc: RUC_B, clientName: 'De Luis' });
+
+    const all = await getRecordsPage(null);
+    const theirs = await getRecordsPage(operator.id);
+
+    expect(all.totalCount).toBe(2);
+    expect(theirs.records.map((record) => record.id)).toEqual([own.id]);
+    expect(await getRecordById(own.id, null)).toMatchObject({ clientName: 'De Luis' });
+    expect(await getRecordById(own.id, admin.id)).toBeNull();
+  });
+
+  it('logs the admin as who changed an operator\'s record', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const operator = await createUser('operador_luis', 'Clave-Segura-2024');
+    const record = await createRecord({ userId: operator.id, ruc: RUC_A, clientName: 'De Luis' });
+
+    await updateRecord(
+      { id: record.id, userId: operator.id, ruc: RUC_A, clientName: 'De Luis SAC' },
+      admin.id,
+    );
+    expect(await deleteRecord(record.id, operator.id, admin.id)).toBe(true);
+    await restoreRecord(record.id, operator.id, admin.id);
+
+    const history = await getRecordHistory(record.id, null);
+    expect(history.map((entry) => [entry.action, entry.actorUsername])).toEqual([
+      ['restore', 'admin_ana'],
+      ['delete', 'admin_ana'],
+      ['update', 'admin_ana'],
+      ['create', 'operador_luis'],
+    ]);
+  });
+
+  it('empties every owner\'s trash for a null owner', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const operator = await createUser('operador_luis', 'Clave-Segura-2024');
+    const mine = await createRecord({ userId: admin.id, ruc: RUC_A, clientName: 'De Ana' });
+    const theirs = await createRecord({ userId: operator.id, ruc: RUC_B, clientName: 'De Luis' });
+    await deleteRecord(mine.id, admin.id);
+    await deleteRecord(theirs.id, operator.id);
+
+    expect(await getDeletedRecords(null)).toHaveLength(2);
+    expect(await emptyTrash(null, admin.id)).toBe(2);
+    expect(await getDeletedRecords(null)).toHaveLength(0);
+  });
+});
+
+// ============================================
+// Deleting Users
+// ============================================
+
+describe('deleteUser', () => {
+  it('keeps the newer record\'s name and details when both users have the RUC', async () => {
+    const admin = await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const operator = await createUser('operador_luis', 'Clave-Segura-2024');
+    const kept = await createRecord({
+      userId: admin.id,
+      ruc: RUC_A,
+      clientName: 'Perú Norte',
+      phone: '014445555',
+    });
+    const newer = await createRecord({
+      userId: operator.id,
+      ruc: RUC_A,
+      clientName: 'Perú Norte S.A.C.',
+      address: 'Av. Arequipa 123',
+      district: 'Lima',
+      province: 'Lima',
+      department: 'Lima',
+      phone: '987654321',
+      email: 'ventas@perunorte.pe',
+      notes: 'Cliente mayorista',
+      status: 'inactive',
+    });
+    const database = await getDatabase();
+    await database.runAsync("UPDATE records SET updated_at = '2024-01-01 00:00:00' WHERE id = ?", [
+      kept.id,
+    ]);
+    await database.runAsync("UPDATE records SET updated_at = '2024-02-01 00:00:00' WHERE id = ?", [
+      newer.id,
+    ]);
+
+    expect(await deleteUser(operator.id, admin.id, admin.id)).toBe(true);
+
+    expect(await getRecordById(kept.id, admin.id)).toMatchObject({
+      clientName: 'Perú Norte S.A.C.',
+      address: 'Av. Arequipa 123',
+      district: 'Lima',
+      province: 'Lima',
+      department: 'Lima',
+      phone: '987654321',
+      email: 'ventas@perunorte.pe',
+      notes: 'Cliente mayorista',
+      status: 'inactive',
+      updatedAt: '2024-02-01 00:00:00',
+    });
+    const [merge] = await getRecordHistory(kept.id, admin.id);
+    expect(merge).toMatchObject({
+      action: 'update',
+      changes: {
+        clientName: { old: 'Perú Norte', new: 'Perú Norte S.A.C.' },
+        address: { old: '', new: 'Av. Arequipa 123' },
+        district: { old: '', new: 'Lima' },
+        province: { old: '', new: 'Lima' },
+        department: { old: '', new: 'Lima' },
+        phone: { old: '014445555', new: '987654321' },
+        email: { old: '', new: 'ventas@perunorte.pe' },
+        notes: { old: '', new: 'Cliente mayorista' },
+        status: { old: 'active', new: 'inactive' },
+      },
+    });
+  });
+});
+
+// ============================================
+// Record Search
+// ============================================
+
+describe('record search', () => {
+  async function search(userId: number, query: string): Promise<string[]> {
+    const page = await getRecordsPage(userId, { query, sort: 'name_asc' });
+    return page.records.map((record) => record.clientName);
+  }
+
+  it('finds names by any part, ignoring accents and case', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    await createRecord({ userId: user.id, ruc: RUC_A, clientName: 'Perú "Norte" S.A.C.' });
+    await createRecord({ userId: user.id, ruc: RUC_B, clientName: 'Comercial 100%' });
+
+    expect(await search(user.id, 'NORTE')).toEqual(['Perú "Norte" S.A.C.']);
+    expect(await search(user.id, 'u "no')).toEqual(['Perú "Norte" S.A.C.']);
+    expect(await search(user.id, 'PERÚ')).toEqual(['Perú "Norte" S.A.C.']);
+    expect(await search(user.id, 'al 100%')).toEqual(['Comercial 100%']);
+    // Too short for the trigram index
+    expect(await search(user.id, '0%')).toEqual(['Comercial 100%']);
+    expect(await search(user.id, 'o%')).toEqual([]);
+  });
+
+  it('matches digits against the start of the RUC or inside the name', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    await createRecord({ userId: user.id, ruc: RUC_A, clientName: 'Perú Norte' });
+    await createRecord({ userId: user.id, ruc: RUC_B, clientName: 'Comercial 100%' });
+
+    expect(await search(user.id, '2010')).toEqual(['Perú Norte']);
+    expect(await search(user.id, '100')).toEqual(['Comercial 100%']);
+    expect(await search(user.id, '0970')).toEqual([]);
+  });
+
+  it('follows renamed and deleted records', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    const record = await createRecord({ userId: user.id, ruc: RUC_A, clientName: 'Perú Norte' });
+
+    await updateRecord({ id: record.id, userId: user.id, ruc: RUC_A, clientName: 'Andes Sur' });
+    expect(await search(user.id, 'norte')).toEqual([]);
+    expect(await search(user.id, 'andes')).toEqual(['Andes Sur']);
+
+    await deleteRecord(record.id, user.id);
+    expect(await search(user.id, 'andes')).toEqual([]);
+  });
+});
+
+// ============================================
+// Passwords
+// ============================================
+
+describe('resetUserPassword', () => {
+  it('lifts the lockout so the new password works at once', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    for (let attempt = 0; attempt < LOGIN_LOCKOUT_ATTEMPTS; attempt++) {
+      await recordFailedLogin(user.username);
+    }
+    expect((await getLoginThrottle(user.username)).isLockedOut).toBe(true);
+
+    expect(await resetUserPassword(user.id, 'Nueva-Clave-2024')).toBe(true);
+
+    expect(await getLoginThrottle(user.username)).toEqual({
+      failedCount: 0,
+      retryAt: null,
+      isLockedOut: false,
+    });
+    expect(await verifyCredentials(user.username, 'Nueva-Clave-2024')).not.toBeNull();
+  });
+});
+
+describe('changePassword and deleteOwnAccount', () => {
+  it('throttle wrong passwords like login does', async () => {
+    await createUser('admin_ana', 'Clave-Segura-2024', 'admin');
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    for (let attempt = 0; attempt < LOGIN_FREE_ATTEMPTS; attempt++) {
+      expect(await changePassword(user.id, 'Adivinada-2024', 'Nueva-Clave-2024')).toBe(false);
+    }
+
+    await expect(
+      changePassword(user.id, 'Clave-Segura-2024', 'Nueva-Clave-2024'),
+    ).rejects.toBeInstanceOf(TooManyAttemptsError);
+    await expect(deleteOwnAccount(user.id, 'Clave-Segura-2024')).rejects.toBeInstanceOf(
+      TooManyAttemptsError,
+    );
+    expect((await getLoginThrottle(user.username)).failedCount).toBe(LOGIN_FREE_ATTEMPTS);
+  });
+
+  it('clear the failures after the right password', async () => {
+    const user = await createUser('ana_perez', 'Clave-Segura-2024');
+    expect(await changePassword(user.id, 'Adivinada-2024', 'Nueva-Clave-2024')).toBe(false);
+
+    expect(await changePassword(user.id, 'Clave-Segura-2024', 'Nueva-Clave-2024')).toBe(true);
+    expect((await getLoginThrottle(user.username)).failedCount).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ClientRecord } from '../../types';
+import { recordsToCsv } from '../export.service';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('../database.service', () => ({}));
+
+const RECORD: ClientRecord = {
+  id: 1,
+  userId: 1,
+  ruc: '20100070970',
+  clientName: 'Perú Norte',
+  address: '',
+  district: '',
+  province: '',
+  department: '',
+  phone: '',
+  email: '',
+  notes: '',
+  status: 'active',
+  createdAt: '2024-01-01 00:00:00',
+  updatedAt: '2024-01-01 00:00:00',
+  deletedAt: null,
+};
+
+/**
+ * The CSV cell written for a client name
+ */
+function clientNameCell(clientName: string): string {
+  const [, row] = recordsToCsv([{ ...RECORD, clientName }]).split('\r\n');
+  return row.split(',')[2];
+}
+
+describe('recordsToCsv', () => {
+  it.each([
+    ['=HYPERLINK("x")', `"'=HYPERLINK(""x"")"`],
+    ['+51 987 654 321', "'+51 987 654 321"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tTab', "'\tTab"],
+    ['\r=1', `"'\r=1"`],
+  ])('neutralises the formula in %j', (value, cell) => {
+    expect(clientNameCell(value)).toBe(cell);
+  });
+
+  it.each(['-12.5', '+51987654321', 'Perú Norte', '100 - 200'])(
+    'keeps %j as is',
+    (value) => {
+      expect(clientNameCell(value)).toBe(value);
+    },
+  );
+});
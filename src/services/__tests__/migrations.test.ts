@@ -0,0 +1,40 @@
+import { getSchemaVersion, runMigrations } from '../migrations';
+import { openTestDatabase } from './support/sqlite-database';
+
+// Valid RUCs (mod 11 check digit)
+const RUC_A = '20100070970';
+const RUC_B = '20131312955';
+
+// Keep the migration logs out of the test output
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('migration 7 (merge duplicate RUCs)', () => {
+  it('merges duplicates per owner, including records without one', async () => {
+    const database = openTestDatabase();
+    await runMigrations(database, 6);
+    await database.execAsync(`
+      INSERT INTO users (id, username, password_hash) VALUES (1, 'uno', '');
+
+      INSERT INTO records (id, user_id, ruc, client_name, search_name, updated_at) VALUES
+        (1, 1, '${RUC_A}', 'Viejo', 'viejo', '2024-01-01 00:00:00'),
+        (2, 1, '${RUC_A}', 'Nuevo', 'nuevo', '2024-02-01 00:00:00'),
+        (3, NULL, '${RUC_A}', 'Huérfano viejo', 'huerfano viejo', '2024-01-01 00:00:00'),
+        (4, NULL, '${RUC_A}', 'Huérfano nuevo', 'huerfano nuevo', '2024-03-01 00:00:00'),
+        (5, NULL, '${RUC_B}', 'Único', 'unico', '2024-01-01 00:00:00');
+    `);
+
+    await runMigrations(database, 7);
+
+    expect(await getSchemaVersion(database)).toBe(7);
+    expect(
+      await database.getAllAsync('SELECT id, user_id, client_name FROM records ORDER BY id'),
+    ).toEqual([
+      { id: 1, user_id: 1, client_name: 'Nuevo' },
+      { id: 3, user_id: null, client_name: 'Huérfano nuevo' },
+      { id: 5, user_id: null, client_name: 'Único' },
+    ]);
+    await database.closeAsync();
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  openDatabaseFileWithKey,
+  openEncryptedDatabase,
+  replaceDatabaseFile,
+} from '../encryption.service';
+import { runMigrations } from '../migrations';
+import { salvageDatabase } from '../recovery.service';
+import { RECOVERED_DATABASE_NAME } from '../../utils/constants';
+import { openTestDatabase } from './support/sqlite-database';
+
+jest.mock('expo-sqlite', () => ({
+  deleteDatabaseAsync: async () => undefined,
+}));
+
+jest.mock('../encryption.service', () => ({
+  openEncryptedDatabase: jest.fn(),
+  openDatabaseFileWithKey: jest.fn(),
+  replaceDatabaseFile: jest.fn(async () => undefined),
+}));
+
+// Valid RUC (mod 11 check digit)
+const RUC_A = '20100070970';
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('salvageDatabase', () => {
+  it('skips rows of tables the damaged file\'s schema version doesn\'t have yet', async () => {
+    // A file whose header claims version 10 but holds version 11 tables
+    const damaged = openTestDatabase();
+    await runMigrations(damaged);
+    await damaged.execAsync(`
+      INSERT INTO users (id, username, password_hash) VALUES (1, 'uno', '');
+      INSERT INTO records (id, user_id, ruc, client_name, search_name, sync_id)
+        VALUES (1, 1, '${RUC_A}', 'Perú Norte', 'peru norte', 'abc');
+      INSERT INTO record_outbox (sync_id, operation) VALUES ('abc', 'upsert');
+      PRAGMA user_version = 10;
+    `);
+    jest.mocked(openEncryptedDatabase).mockResolvedValue(damaged);
+
+    // Keep the rebuilt file open to look inside
+    const rebuilt = openTestDatabase();
+    jest.spyOn(rebuilt, 'closeAsync').mockResolvedValue(undefined);
+    jest.mocked(openDatabaseFileWithKey).mockResolvedValue(rebuilt);
+
+    const report = await salvageDatabase();
+
+    expect(report.schemaVersion).toBe(10);
+    expect(replaceDatabaseFile).toHaveBeenCalledWith(RECOVERED_DATABASE_NAME);
+    expect(
+      await rebuilt.getAllAsync('SELECT client_name FROM records'),
+    ).toEqual([{ client_name: 'Perú Norte' }]);
+  });
+});
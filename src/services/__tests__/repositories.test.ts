@@ -0,0 +1,411 @@
+import type * as SQLite from 'expo-sqlite';
+import {
+  createRecordRepository,
+  createUserRepository,
+} from '../database.service';
+import {
+  DuplicateRecordError,
+  DuplicateUsernameError,
+  NotFoundError,
+  ValidationError,
+} from '../errors';
+import {
+  createMemoryRecordRepository,
+  createMemoryUserRepository,
+} from '../memory.repository';
+import { runMigrations } from '../migrations';
+import type { RecordRepository, UserRepository } from '../../types';
+import { openTestDatabase } from './support/sqlite-database';
+
+// password.service only needs random salts from expo-crypto
+jest.mock('expo-crypto', () => ({
+  getRandomBytesAsync: async (length: number) =>
+    new Uint8Array(jest.requireActual<typeof import('crypto')>('crypto').randomBytes(length)),
+  digestStringAsync: async () => {
+    throw new Error('Legacy hashes are not used in these tests');
+  },
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+}));
+
+// The repositories get their connection passed in; the app database
+// (and its native modules) is never opened
+jest.mock('../encryption.service', () => ({}));
+
+// Keep the migration and account logs out of the test output
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+// Valid RUCs (mod 11 check digit)
+const RUC_A = '20100070970';
+const RUC_B = '20131312955';
+const RUC_INVALID = '20100070971';
+
+interface Storage {
+  users: UserRepository;
+  records: RecordRepository;
+  close: () => Promise<void>;
+}
+
+async function openMemoryStorage(): Promise<Storage> {
+  return {
+    users: createMemoryUserRepository(),
+    records: createMemoryRecordRepository(),
+    close: async () => undefined,
+  };
+}
+
+/**
+ * A migrated database with the owners the record tests use (IDs 1 and 2),
+ * since records.user_id references users
+ */
+async function openMigratedDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const database = openTestDatabase();
+  await database.execAsync('PRAGMA foreign_keys = ON');
+  await runMigrations(database);
+  await database.execAsync(`
+    INSERT INTO users (id, username, password_hash) VALUES
+      (1, 'uno', ''),
+      (2, 'dos', '');
+  `);
+  return database;
+}
+
+async function openSqliteStorage(): Promise<Storage> {
+  const database = await openMigratedDatabase();
+  return {
+    users: createUserRepository(database),
+    records: createRecordRepository(database),
+    close: () => database.closeAsync(),
+  };
+}
+
+// ============================================
+// Repository Contract
+// ============================================
+//
+// Both implementations must behave the same for these cases.
+
+describe.each([
+  ['memory', openMemoryStorage],
+  ['SQLite', openSqliteStorage],
+])('%s repositories', (_name, openStorage) => {
+  let storage: Storage;
+
+  beforeEach(async () => {
+    storage = await openStorage();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  describe('users', () => {
+    it('creates a user with the default role', async () => {
+      const user = await storage.users.create('ana_perez', 'Clave-Segura-2024');
+
+      expect(user).toMatchObject({
+        username: 'ana_perez',
+        role: 'operator',
+        isActive: true,
+        lastLoginAt: null,
+      });
+      expect(await storage.users.getById(user.id)).toEqual(user);
+    });
+
+    it('rejects a taken username', async () => {
+      await storage.users.create('ana_perez', 'Clave-Segura-2024');
+
+      await expect(
+        storage.users.create('ana_perez', 'Otra-Clave-2024'),
+      ).rejects.toBeInstanceOf(DuplicateUsernameError);
+    });
+
+    it('verifies the right password and records the login', async () => {
+      const created = await storage.users.create('ana_perez', 'Clave-Segura-2024', 'admin');
+
+      const user = await storage.users.verifyCredentials('ana_perez', 'Clave-Segura-2024');
+
+      expect(user).toMatchObject({ id: created.id, role: 'admin' });
+      expect(user?.lastLoginAt).not.toBeNull();
+      expect(await storage.users.getById(created.id)).toEqual(user);
+    });
+
+    it('rejects a wrong password or unknown username', async () => {
+      await storage.users.create('ana_perez', 'Clave-Segura-2024');
+
+      expect(
+        await storage.users.verifyCredentials('ana_perez', 'clave-segura-2024'),
+      ).toBeNull();
+      expect(await storage.users.verifyCredentials('luis', 'Clave-Segura-2024')).toBeNull();
+    });
+
+    it('returns null for an unknown id', async () => {
+      expect(await storage.users.getById(99)).toBeNull();
+    });
+  });
+
+  describe('records', () => {
+    describe('create', () => {
+      it('stores trimmed details with defaults', async () => {
+        const record = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Comercial Andina',
+          address: '  Av. Arequipa 123  ',
+        });
+
+        expect(record).toMatchObject({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Comercial Andina',
+          address: 'Av. Arequipa 123',
+          district: '',
+          status: 'active',
+          deletedAt: null,
+        });
+        expect(await storage.records.getById(record.id, 1)).toEqual(record);
+      });
+
+      it('rejects invalid input with the failing field', async () => {
+        const error = await storage.records
+          .create({ userId: 1, ruc: RUC_INVALID, clientName: 'Comercial Andina' })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).field).toBe('ruc');
+      });
+
+      it('rejects a RUC the owner already registered', async () => {
+        const existing = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Uno',
+        });
+
+        const error = await storage.records
+          .create({ userId: 1, ruc: RUC_A, clientName: 'Dos' })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(DuplicateRecordError);
+        expect((error as DuplicateRecordError).existing.id).toBe(existing.id);
+      });
+
+      it('allows the same RUC for another owner', async () => {
+        await storage.records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+
+        await expect(
+          storage.records.create({ userId: 2, ruc: RUC_A, clientName: 'Uno' }),
+        ).resolves.toMatchObject({ userId: 2 });
+      });
+    });
+
+    describe('update', () => {
+      it('changes the given fields and keeps the rest', async () => {
+        const created = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Comercial Andina',
+          phone: '01 555 1234',
+        });
+
+        const updated = await storage.records.update({
+          id: created.id,
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Comercial Andina SAC',
+          status: 'inactive',
+        });
+
+        expect(updated).toMatchObject({
+          clientName: 'Comercial Andina SAC',
+          phone: '01 555 1234',
+          status: 'inactive',
+        });
+      });
+
+      it('throws NotFoundError for another owner or a trashed record', async () => {
+        const created = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Uno',
+        });
+
+        await expect(
+          storage.records.update({ id: created.id, userId: 2, ruc: RUC_A, clientName: 'Dos' }),
+        ).rejects.toBeInstanceOf(NotFoundError);
+
+        await storage.records.delete(created.id, 1);
+
+        await expect(
+          storage.records.update({ id: created.id, userId: 1, ruc: RUC_A, clientName: 'Dos' }),
+        ).rejects.toBeInstanceOf(NotFoundError);
+      });
+
+      it('rejects changing to a RUC used by another record', async () => {
+        await storage.records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+        const other = await storage.records.create({
+          userId: 1,
+          ruc: RUC_B,
+          clientName: 'Dos',
+        });
+
+        await expect(
+          storage.records.update({ id: other.id, userId: 1, ruc: RUC_A, clientName: 'Dos' }),
+        ).rejects.toBeInstanceOf(DuplicateRecordError);
+      });
+    });
+
+    describe('delete', () => {
+      it('moves the record out of reach and frees its RUC', async () => {
+        const created = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Uno',
+        });
+
+        expect(await storage.records.delete(created.id, 1)).toBe(true);
+        expect(await storage.records.getById(created.id, 1)).toBeNull();
+        expect(await storage.records.findByRuc(1, RUC_A)).toBeNull();
+
+        await expect(
+          storage.records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno otra vez' }),
+        ).resolves.toMatchObject({ ruc: RUC_A });
+      });
+
+      it('returns false for another owner or an already deleted record', async () => {
+        const created = await storage.records.create({
+          userId: 1,
+          ruc: RUC_A,
+          clientName: 'Uno',
+        });
+
+        expect(await storage.records.delete(created.id, 2)).toBe(false);
+        expect(await storage.records.delete(created.id, 1)).toBe(true);
+        expect(await storage.records.delete(created.id, 1)).toBe(false);
+      });
+    });
+  });
+});
+
+// ============================================
+// SQLite Side Effects
+// ============================================
+//
+// What only the SQLite repositories write: change history and sync
+// outbox rows, in the same transaction as the change.
+
+describe('SQLite record repository', () => {
+  let database: SQLite.SQLiteDatabase;
+  let records: RecordRepository;
+
+  const historyOf = (recordId: number) =>
+    database.getAllAsync<{ action: string; actor_username: string | null; changes: string }>(
+      'SELECT action, actor_username, changes FROM record_history WHERE record_id = ? ORDER BY id',
+      [recordId],
+    );
+
+  const outboxOf = (recordId: number) =>
+    database.getFirstAsync<{ operation: string; revision: number }>(
+      `SELECT o.operation, o.revision FROM record_outbox o
+       JOIN records r ON r.sync_id = o.sync_id WHERE r.id = ?`,
+      [recordId],
+    );
+
+  beforeEach(async () => {
+    database = await openMigratedDatabase();
+    records = createRecordRepository(database);
+  });
+
+  afterEach(async () => {
+    await database.closeAsync();
+  });
+
+  it('logs the creation with every audited value and queues an upsert', async () => {
+    const record = await records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+
+    const [entry] = await historyOf(record.id);
+    expect(entry).toMatchObject({ action: 'create', actor_username: 'uno' });
+    expect(JSON.parse(entry.changes)).toMatchObject({
+      ruc: { old: null, new: RUC_A },
+      clientName: { old: null, new: 'Uno' },
+      status: { old: null, new: 'active' },
+    });
+    expect(await outboxOf(record.id)).toEqual({ operation: 'upsert', revision: 1 });
+  });
+
+  it('logs only the changed fields of an update and bumps the outbox revision', async () => {
+    const record = await records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+
+    await records.update({ id: record.id, userId: 1, ruc: RUC_A, clientName: 'Uno SAC' });
+
+    const history = await historyOf(record.id);
+    expect(history.map((entry) => entry.action)).toEqual(['create', 'update']);
+    expect(JSON.parse(history[1].changes)).toEqual({
+      clientName: { old: 'Uno', new: 'Uno SAC' },
+    });
+    expect(await outboxOf(record.id)).toEqual({ operation: 'upsert', revision: 2 });
+  });
+
+  it('logs a trashed record and queues it so the deletion syncs', async () => {
+    const record = await records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+
+    await records.delete(record.id, 1);
+
+    const history = await historyOf(record.id);
+    expect(history.map((entry) => entry.action)).toEqual(['create', 'delete']);
+    expect(await outboxOf(record.id)).toEqual({ operation: 'upsert', revision: 2 });
+  });
+
+  it('writes nothing for a rejected duplicate', async () => {
+    await records.create({ userId: 1, ruc: RUC_A, clientName: 'Uno' });
+
+    await expect(
+      records.create({ userId: 1, ruc: RUC_A, clientName: 'Dos' }),
+    ).rejects.toBeInstanceOf(DuplicateRecordError);
+
+    const counts = await database.getFirstAsync<Record<string, number>>(
+      `SELECT
+         (SELECT COUNT(*) FROM records) AS records,
+         (SELECT COUNT(*) FROM record_history) AS history,
+         (SELECT COUNT(*) FROM record_outbox) AS outbox`,
+    );
+    expect(counts).toEqual({ records: 1, history: 1, outbox: 1 });
+  });
+
+  it('rejects an owner that does not exist without leaving rows behind', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+    await expect(
+      records.create({ userId: 99, ruc: RUC_A, clientName: 'Uno' }),
+    ).rejects.toThrow();
+
+    const counts = await database.getFirstAsync<Record<string, number>>(
+      `SELECT
+         (SELECT COUNT(*) FROM records) AS records,
+         (SELECT COUNT(*) FROM record_history) AS history`,
+    );
+    expect(counts).toEqual({ records: 0, history: 0 });
+  });
+});
+
+describe('SQLite user repository', () => {
+  let database: SQLite.SQLiteDatabase;
+  let users: UserRepository;
+
+  beforeEach(async () => {
+    database = await openMigratedDatabase();
+    users = createUserRepository(database);
+  });
+
+  afterEach(async () => {
+    await database.closeAsync();
+  });
+
+  it('rejects a deactivated account even with the right password', async () => {
+    const user = await users.create('ana_perez', 'Clave-Segura-2024');
+    await database.runAsync('UPDATE users SET is_active = 0 WHERE id = ?', [user.id]);
+
+    expect(await users.verifyCredentials('ana_perez', 'Clave-Segura-2024')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import Database from 'better-sqlite3';
+import type * as SQLite from 'expo-sqlite';
+
+// ============================================
+// expo-sqlite Adapter
+// ============================================
+//
+// Runs the SQLite repositories under Jest: the subset of the expo-sqlite
+// database API the services call, backed by better-sqlite3 in memory.
+
+type BindArgs = [SQLite.SQLiteBindParams] | SQLite.SQLiteBindValue[];
+
+/**
+ * Positional bind values, as expo-sqlite accepts them: one array or
+ * variadic values. better-sqlite3 has no booleans, so they bind as 1/0.
+ */
+function toBindValues(args: BindArgs): unknown[] {
+  const [first] = args;
+  const values = args.length === 1 && Array.isArray(first) ? first : args;
+
+  return values.map((value) => {
+    if (typeof value === 'boolean') {
+      return Number(value);
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Uint8Array)) {
+      throw new Error('Only positional parameters are supported');
+    }
+    return value;
+  });
+}
+
+/**
+ * Open an empty in-memory database shaped like expo-sqlite's
+ */
+export function openTestDatabase(): SQLite.SQLiteDatabase {
+  const native = new Database(':memory:');
+
+  const database = {
+    async execAsync(source: string): Promise<void> {
+      native.exec(source);
+    },
+
+    async runAsync(source: string, ...args: BindArgs): Promise<SQLite.SQLiteRunResult> {
+      const result = native.prepare(source).run(...toBindValues(args));
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+
+    async getFirstAsync<T>(source: string, ...args: BindArgs): Promise<T | null> {
+      return (native.prepare(source).get(...toBindValues(args)) as T | undefined) ?? null;
+    },
+
+    async getAllAsync<T>(source: string, ...args: BindArgs): Promise<T[]> {
+      return native.prepare(source).all(...toBindValues(args)) as T[];
+    },
+
+    async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+      native.exec('BEGIN');
+      try {
+        await task();
+        native.exec('COMMIT');
+      } catch (error) {
+        native.exec('ROLLBACK');
+        throw error;
+      }
+    },
+
+    async closeAsync(): Promise<void> {
+      native.close();
+    },
+  };
+
+  return database as unknown as SQLite.SQLiteDatabase;
+}
@@ -0,0 +1,276 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as SQLite from 'expo-sqlite';
+import type {
+  BackupArchive,
+  BackupContents,
+  BackupRow,
+  BackupTable,
+  BackupUser,
+  DatabaseRecord,
+  DatabaseRecordHistory,
+  RestoreMode,
+  RestoreResult,
+} from '../types';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from '../utils/constants';
+import { sha256, toHex, utf8Encode } from '../utils/crypto';
+import { applyBackup, getDatabase } from './database.service';
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  runMigrations,
+} from './migrations';
+
+// ============================================
+// Errors
+// ============================================
+
+// version: made by a newer app version, with a format or schema we don't know
+export type InvalidBackupReason = 'format' | 'checksum' | 'version';
+
+/**
+ * Thrown when a file is not a backup archive this app can restore
+ */
+export class InvalidBackupError extends Error {
+  constructor(public readonly reason: InvalidBackupReason) {
+    super(`Invalid backup archive (${reason})`);
+    this.name = 'InvalidBackupError';
+  }
+}
+
+// ============================================
+// Archive Layout
+// ============================================
+
+// Insertion order matters: records reference users
+const BACKUP_TABLES: BackupTable[] = ['users', 'records', 'record_history', 'app_settings'];
+
+// Columns read per table; password hashes are left out on purpose
+const EXPORT_QUERIES: Record<BackupTable, string> = {
+  users: 'SELECT id, username, role, is_active, last_login_at, created_at FROM users',
+  records: 'SELECT * FROM records',
+  record_history: 'SELECT * FROM record_history',
+  app_settings: 'SELECT * FROM app_settings',
+};
+
+function computeChecksum(tables: BackupArchive['tables']): string {
+  return toHex(sha256(utf8Encode(JSON.stringify(tables))));
+}
+
+// ============================================
+// Backup
+// ============================================
+
+/**
+ * Snapshot every backed-up table into an archive
+ */
+export async function createBackup(): Promise<BackupArchive> {
+  const database = await getDatabase();
+  const tables: BackupArchive['tables'] = {};
+
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await database.getAllAsync<BackupRow>(EXPORT_QUERIES[table]);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: await getSchemaVersion(database),
+    createdAt: new Date().toISOString(),
+    checksum: computeChecksum(tables),
+    tables,
+  };
+}
+
+/**
+ * Write a backup to the cache directory and open the OS share sheet so it
+ * can be saved off the device. Returns the archive that was written.
+ */
+export async function exportBackup(): Promise<BackupArchive> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const archive = await createBackup();
+  const stamp = archive.createdAt.slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+
+  const file = new File(Paths.cache, `respaldo-${stamp}.json`);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(archive));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Guardar copia de seguridad',
+  });
+
+  return archive;
+}
+
+// ============================================
+// Restore
+// ============================================
+
+/**
+ * Check that text is a backup archive this app can restore.
+ * Throws InvalidBackupError otherwise.
+ */
+export function parseBackupArchive(text: string): BackupArchive {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new InvalidBackupError('format');
+  }
+
+  if (
+    !archive ||
+    archive.format !== BACKUP_FORMAT ||
+    !Number.isInteger(archive.formatVersion) ||
+    !Number.isInteger(archive.schemaVersion) ||
+    archive.schemaVersion < 1 ||
+    typeof archive.tables !== 'object' ||
+    archive.tables === null
+  ) {
+    throw new InvalidBackupError('format');
+  }
+
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION || archive.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new InvalidBackupError('version');
+  }
+
+  if (computeChecksum(archive.tables) !== archive.checksum) {
+    throw new InvalidBackupError('checksum');
+  }
+
+  return archive;
+}
+
+/**
+ * Let the user pick a backup file and validate it.
+ * Returns null if the picker was cancelled.
+ */
+export async function pickBackupFile(): Promise<BackupArchive | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const text = await new File(result.assets[0].uri).text();
+  return parseBackupArchive(text);
+}
+
+/**
+ * Bring the archive up to the current schema and write it into the
+ * database. See applyBackup for how replace and merge behave.
+ */
+export async function restoreBackup(
+  archive: BackupArchive,
+  mode: RestoreMode,
+  actorId: number,
+): Promise<RestoreResult> {
+  const contents = await stageBackup(archive);
+  return applyBackup(contents, mode, actorId);
+}
+
+/**
+ * Load the archive into an in-memory database created at the archive's
+ * schema version, then run the regular migrations on it. Older backups
+ * go through exactly the same data fixes as an old database on disk.
+ */
+async function stageBackup(archive: BackupArchive): Promise<BackupContents> {
+  const staging = await SQLite.openDatabaseAsync(':memory:');
+
+  try {
+    await runMigrations(staging, archive.schemaVersion);
+
+    await staging.withTransactionAsync(async () => {
+      for (const table of BACKUP_TABLES) {
+        await insertStagingRows(staging, table, archive.tables[table] ?? []);
+      }
+    });
+
+    await runMigrations(staging);
+
+    return {
+      users: await staging.getAllAsync<BackupUser>(EXPORT_QUERIES.users),
+      records: await staging.getAllAsync<DatabaseRecord>('SELECT * FROM records'),
+      history: await staging.getAllAsync<DatabaseRecordHistory>(
+        'SELECT * FROM record_history ORDER BY id',
+      ),
+      settings: await staging.getAllAsync<{ key: string; value: string }>(
+        'SELECT key, value FROM app_settings',
+      ),
+    };
+  } finally {
+    await staging.closeAsync();
+  }
+}
+
+/**
+ * Whether an archive value can go into a column of the given declared
+ * type: INTEGER columns take whole numbers, the rest numbers or text.
+ * Objects and arrays never can, since the file is untrusted JSON.
+ */
+function isValidColumnValue(value: unknown, declaredType: string): boolean {
+  if (value === null) {
+    return true;
+  }
+  if (/INT/i.test(declaredType)) {
+    return Number.isInteger(value);
+  }
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Insert archive rows into a staging table. Only columns the table has
+ * at that schema version are copied, since names come from the file.
+ * Throws InvalidBackupError for a value of the wrong type.
+ */
+async function insertStagingRows(
+  staging: SQLite.SQLiteDatabase,
+  table: BackupTable,
+  rows: BackupRow[],
+): Promise<void> {
+  if (!Array.isArray(rows)) {
+    throw new InvalidBackupError('format');
+  }
+  if (rows.length === 0) {
+    return;
+  }
+
+  const columns = await staging.getAllAsync<{ name: string; type: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  if (columns.length === 0) {
+    throw new InvalidBackupError('format'); // rows for a table that didn't exist yet
+  }
+
+  const types = new Map(columns.map((column) => [column.name, column.type]));
+
+  for (const row of rows) {
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new InvalidBackupError('format');
+    }
+
+    const values: BackupRow =
+      table === 'users' ? { ...row, password_hash: '' } : row;
+    const names = Object.keys(values).filter((name) => types.has(name));
+
+    if (names.some((name) => !isValidColumnValue(values[name], types.get(name) ?? ''))) {
+      throw new InvalidBackupError('format');
+    }
+
+    const placeholders = names.map(() => '?').join(', ');
+
+    await staging.runAsync(
+      `INSERT INTO ${table} (${names.map((name) => `"${name}"`).join(', ')}) VALUES (${placeholders})`,
+      names.map((name) => values[name]),
+    );
+  }
+}
@@ -1,333 +1,2653 @@
-import * as Crypto from 'expo-crypto';
 import * as SQLite from 'expo-sqlite';
 import type {
+  BackupContents,
   ClientRecord,
   CreateRecordInput,
   UpdateRecordInput,
+  DatabaseLoginAttempt,
+  DatabaseOutboxEntry,
   DatabaseRecord,
+  DatabaseRecordHistory,
+  DatabaseSyncConflict,
   DatabaseUser,
+  ImportDuplicateMode,
+  ImportResult,
+  ImportRow,
+  LoginThrottle,
+  PendingSyncChange,
+  RecordRepository,
+  RecordAuditField,
+  RecordChanges,
+  RecordCursor,
+  RecordFilters,
+  RecordHistoryAction,
+  RecordHistoryEntry,
+  RecordPage,
+  RecordSortOption,
+  RestoreMode,
+  RestoreResult,
+  SyncChange,
+  SyncConflict,
+  SyncConflictWinner,
+  SyncOperation,
+  SyncRecord,
+  SyncStatus,
   User,
+  UserRepository,
+  UserRole,
 } from '../types';
-import { DATABASE_NAME, DEMO_USER } from '../utils/constants';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  DEFAULT_USER_ROLE,
+  DEMO_USER,
+  INTEGRITY_CHECK_MAX_ERRORS,
+  LOGIN_BASE_DELAY_MS,
+  LOGIN_FREE_ATTEMPTS,
+  LOGIN_LOCKOUT_ATTEMPTS,
+  LOGIN_LOCKOUT_DURATION_MS,
+  LOGIN_MAX_DELAY_MS,
+  RECORD_STATUS_LABELS,
+  RECORDS_PAGE_SIZE,
+  SEED_DEMO_USER,
+  SETTINGS_KEYS,
+  SYNC_BASE_DELAY_MS,
+  SYNC_MAX_DELAY_MS,
+} from '../utils/constants';
+import { escapeLikePattern, normalizeSearchText } from '../utils/text';
+import { openEncryptedDatabase } from './encryption.service';
+import {
+  ConflictError,
+  DatabaseCorruptError,
+  DuplicateRecordError,
+  DuplicateUsernameError,
+  NotFoundError,
+  StorageError,
+  TooManyAttemptsError,
+  ValidationError,
+} from './errors';
+import { runMigrations } from './migrations';
+import { hashPassword, needsRehash, verifyPassword } from './password.service';
+import { assertValidRecordInput, resolveRecordDetails } from './record-input';
 
 // ============================================
 // Database Instance
 // ============================================
 
 let db: SQLite.SQLiteDatabase | null = null;
+// The open in progress, shared by every caller that arrives meanwhile so
+// only one connection migrates the file (and only one key is generated)
+let opening: Promise<SQLite.SQLiteDatabase> | null = null;
+// Set while withDatabaseClosed works on the file; getDatabase waits for it
+let maintenance: Promise<unknown> | null = null;
 
 /**
- * Gets or creates the database instance
+ * Gets or creates the database instance, waiting while the file is under
+ * maintenance (see withDatabaseClosed).
+ * Throws DatabaseKeyError if the encrypted database can't be opened and
+ * DatabaseCorruptError if it is damaged.
  */
 export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
-  if (!db) {
-    db = await SQLite.openDatabaseAsync(DATABASE_NAME);
-    await initializeDatabase(db);
+  while (maintenance) {
+    await maintenance;
   }
-  return db;
+
+  if (db) {
+    return db;
+  }
+
+  if (!opening) {
+    // A failed open is forgotten so the next call tries again
+    opening = openDatabase()
+      .then((database) => {
+        db = database;
+        return database;
+      })
+      .finally(() => {
+        opening = null;
+      });
+  }
+
+  return opening;
+}
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const database = await openEncryptedDatabase();
+
+  try {
+    await initializeDatabase(database);
+  } catch (error) {
+    // Don't keep a half-initialized connection around
+    await database.closeAsync();
+
+    if (isCorruptionError(error)) {
+      throw new DatabaseCorruptError([String(error)]);
+    }
+    throw error;
+  }
+
+  return database;
 }
 
 /**
- * Initialize database tables
+ * Initialize database schema and seed data
  */
 async function initializeDatabase(
   database: SQLite.SQLiteDatabase,
 ): Promise<void> {
-  // Create users table
-  await database.execAsync(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-
-  // Create records table
-  await database.execAsync(`
-    CREATE TABLE IF NOT EXISTS records (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      ruc TEXT NOT NULL,
-      client_name TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
+  // Enforce foreign keys (records.user_id -> users.id)
+  await database.execAsync('PRAGMA foreign_keys = ON');
 
-  // Create demo user if not exists
-  await createDemoUserIfNotExists(database);
-}
+  // Don't migrate or write into a damaged file
+  const problems = await runIntegrityCheck(database, 'quick');
+  if (problems.length > 0) {
+    throw new DatabaseCorruptError(problems);
+  }
 
-/**
- * Hash a password using SHA-256
- */
-export async function hashPassword(password: string): Promise<string> {
-  const hash = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    password,
-  );
-  return hash;
+  // Bring the schema up to date
+  await runMigrations(database);
+
+  // Drop trashed records past the retention period
+  await purgeExpiredRecords(database);
+
+  // Development builds may opt into the demo account
+  if (SEED_DEMO_USER) {
+    await seedDemoUserIfEmpty(database);
+  }
 }
 
 /**
- * Create the demo user if it doesn't exist
+ * Create the demo admin if the database has no users yet.
+ * Production installs create their first admin through the setup screen.
  */
-async function createDemoUserIfNotExists(
+async function seedDemoUserIfEmpty(
   database: SQLite.SQLiteDatabase,
 ): Promise<void> {
-  const existingUser = await database.getFirstAsync<DatabaseUser>(
-    'SELECT * FROM users WHERE username = ?',
-    [DEMO_USER.username],
+  const existingUser = await database.getFirstAsync<{ id: number }>(
+    'SELECT id FROM users LIMIT 1',
   );
 
   if (!existingUser) {
     const passwordHash = await hashPassword(DEMO_USER.password);
     await database.runAsync(
-      'INSERT INTO users (username, password_hash) VALUES (?, ?)',
+      "INSERT INTO users (username, password_hash, role) VALUES (?, ?, 'admin')",
       [DEMO_USER.username, passwordHash],
     );
     console.log('Demo user created:', DEMO_USER.username);
   }
 }
 
+/**
+ * Run SQLite's integrity check. `quick` skips index contents and is fast
+ * enough for every startup. Returns the problems found, empty when healthy.
+ */
+export async function runIntegrityCheck(
+  database: SQLite.SQLiteDatabase,
+  mode: 'quick' | 'full',
+): Promise<string[]> {
+  const pragma = mode === 'quick' ? 'quick_check' : 'integrity_check';
+
+  try {
+    const rows = await database.getAllAsync<Record<string, string>>(
+      `PRAGMA ${pragma}(${INTEGRITY_CHECK_MAX_ERRORS})`,
+    );
+    const messages = rows.map((row) => String(Object.values(row)[0]));
+
+    return messages.length === 1 && messages[0] === 'ok' ? [] : messages;
+  } catch (error) {
+    // The check itself can't read the file
+    return [String(error)];
+  }
+}
+
+/**
+ * Whether SQLite failed because the file is damaged
+ */
+function isCorruptionError(error: unknown): boolean {
+  return /malformed|SQLITE_CORRUPT|SQLITE_NOTADB/i.test(String(error));
+}
+
 // ============================================
-// User Operations
+// Repositories
 // ============================================
 
 /**
- * Verify user credentials
+ * User storage on the given SQLite database. The exported user functions
+ * use it with the app database; tests can pass another connection.
  */
-export async function verifyCredentials(
-  username: string,
-  password: string,
-): Promise<User | null> {
-  const database = await getDatabase();
-  const passwordHash = await hashPassword(password);
+export function createUserRepository(
+  database: SQLite.SQLiteDatabase,
+): UserRepository {
+  return {
+    async verifyCredentials(username, password) {
+      const user = await database.getFirstAsync<DatabaseUser>(
+        'SELECT * FROM users WHERE username = ?',
+        [username],
+      );
 
-  const user = await database.getFirstAsync<DatabaseUser>(
-    'SELECT * FROM users WHERE username = ? AND password_hash = ?',
-    [username, passwordHash],
-  );
+      if (!user || !user.is_active) {
+        return null;
+      }
 
-  if (!user) {
-    return null;
-  }
+      const isValid = await verifyPassword(password, user.password_hash);
 
-  return {
-    id: user.id,
-    username: user.username,
-    createdAt: user.created_at,
+      if (!isValid) {
+        return null;
+      }
+
+      // Hash outside the transaction: it is slow and needs no lock
+      const upgradedHash = needsRehash(user.password_hash)
+        ? await hashPassword(password)
+        : null;
+
+      const loggedIn = await runTransaction(database, async () => {
+        if (upgradedHash) {
+          await database.runAsync(
+            'UPDATE users SET password_hash = ? WHERE id = ?',
+            [upgradedHash, user.id],
+          );
+          console.log('Password hash upgraded for:', user.username);
+        }
+
+        await database.runAsync(
+          'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [user.id],
+        );
+
+        return database.getFirstAsync<DatabaseUser>(
+          'SELECT * FROM users WHERE id = ?',
+          [user.id],
+        );
+      });
+
+      return mapDatabaseUserToUser(loggedIn ?? user);
+    },
+
+    async getById(id) {
+      const user = await database.getFirstAsync<DatabaseUser>(
+        'SELECT * FROM users WHERE id = ?',
+        [id],
+      );
+
+      if (!user) {
+        return null;
+      }
+
+      return mapDatabaseUserToUser(user);
+    },
+
+    async create(username, password, role = DEFAULT_USER_ROLE) {
+      const passwordHash = await hashPassword(password);
+
+      const newUser = await runTransaction(database, async () => {
+        // Check if a user with same username already exists
+        const existingUser = await database.getFirstAsync<DatabaseUser>(
+          'SELECT id FROM users WHERE username = ?',
+          [username],
+        );
+
+        if (existingUser) {
+          throw new DuplicateUsernameError(username);
+        }
+
+        const result = await database.runAsync(
+          'INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)',
+          [username, passwordHash, role],
+        );
+
+        return database.getFirstAsync<DatabaseUser>(
+          'SELECT * FROM users WHERE id = ?',
+          [result.lastInsertRowId],
+        );
+      });
+
+      if (!newUser) {
+        throw new StorageError('Created user could not be read back');
+      }
+
+      console.log('User created:', username);
+
+      return mapDatabaseUserToUser(newUser);
+    },
   };
 }
 
 /**
- * Get user by ID
+ * Record storage on the given SQLite database, including the change
+ * history and sync outbox rows each change writes
  */
-export async function getUserById(id: number): Promise<User | null> {
-  const database = await getDatabase();
+export function createRecordRepository(
+  database: SQLite.SQLiteDatabase,
+): RecordRepository {
+  const repository: RecordRepository = {
+    async create(input) {
+      assertValidRecordInput(input);
 
-  const user = await database.getFirstAsync<DatabaseUser>(
-    'SELECT * FROM users WHERE id = ?',
-    [id],
-  );
+      const record = await runTransaction(database, async () => {
+        const existing = await repository.findByRuc(input.userId, input.ruc);
+        if (existing) {
+          throw new DuplicateRecordError(existing);
+        }
 
-  if (!user) {
-    return null;
-  }
+        return insertRecordRow(database, input);
+      });
 
-  return {
-    id: user.id,
-    username: user.username,
-    createdAt: user.created_at,
+      if (!record) {
+        throw new StorageError('Created record could not be read back');
+      }
+
+      return mapDatabaseRecordToClientRecord(record);
+    },
+
+    async update(input, actorId = input.userId) {
+      assertValidRecordInput(input);
+
+      const record = await runTransaction(database, async () => {
+        const existing = await repository.findByRuc(input.userId, input.ruc);
+        if (existing && existing.id !== input.id) {
+          throw new DuplicateRecordError(existing);
+        }
+
+        return updateRecordRow(database, input, actorId);
+      });
+
+      if (!record) {
+        throw new NotFoundError('record', input.id);
+      }
+
+      return mapDatabaseRecordToClientRecord(record);
+    },
+
+    async delete(id, userId, actorId = userId) {
+      return runTransaction(database, async () => {
+        const result = await database.runAsync(
+          `UPDATE records SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
+          [id, userId],
+        );
+
+        if (result.changes === 0) {
+          return false;
+        }
+
+        await insertRecordHistory(database, id, 'delete', actorId, {});
+        await queueRecordSync(database, id, 'upsert');
+        return true;
+      });
+    },
+
+    async getById(id, userId) {
+      const record = await database.getFirstAsync<DatabaseRecord>(
+        'SELECT * FROM records WHERE id = ? AND user_id = ? AND deleted_at IS NULL',
+        [id, userId],
+      );
+
+      if (!record) {
+        return null;
+      }
+
+      return mapDatabaseRecordToClientRecord(record);
+    },
+
+    async findByRuc(userId, ruc) {
+      const record = await database.getFirstAsync<DatabaseRecord>(
+        'SELECT * FROM records WHERE user_id = ? AND ruc = ? AND deleted_at IS NULL',
+        [userId, ruc],
+      );
+
+      if (!record) {
+        return null;
+      }
+
+      return mapDatabaseRecordToClientRecord(record);
+    },
   };
+
+  return repository;
+}
+
+async function getUserRepository(): Promise<UserRepository> {
+  return createUserRepository(await getDatabase());
+}
+
+async function getRecordRepository(): Promise<RecordRepository> {
+  return createRecordRepository(await getDatabase());
 }
 
+// ============================================
+// User Operations
+// ============================================
+
 /**
- * Create a new user
- * @returns User if created successfully, null if username already exists
+ * Verify user credentials.
+ * Deactivated accounts are rejected. Hashes in an outdated format are
+ * upgraded after a successful match.
  */
-export async function createUser(
+export async function verifyCredentials(
   username: string,
   password: string,
 ): Promise<User | null> {
-  const database = await getDatabase();
+  return (await getUserRepository()).verifyCredentials(username, password);
+}
 
-  // Check if a user with same username already exists
-  const existingUser = await database.getFirstAsync<DatabaseUser>(
-    'SELECT id FROM users WHERE username = ?',
-    [username],
-  );
+/**
+ * Get user by ID
+ */
+export async function getUserById(id: number): Promise<User | null> {
+  return (await getUserRepository()).getById(id);
+}
 
-  if (existingUser) {
-    console.log('User already exists:', username);
-    return null;
-  }
+/**
+ * Create a new user.
+ * Throws DuplicateUsernameError if the username is taken.
+ */
+export async function createUser(
+  username: string,
+  password: string,
+  role: UserRole = DEFAULT_USER_ROLE,
+): Promise<User> {
+  return (await getUserRepository()).create(username, password, role);
+}
 
-  // Create the new user
-  const passwordHash = await hashPassword(password);
-  const result = await database.runAsync(
-    'INSERT INTO users (username, password_hash) VALUES (?, ?)',
-    [username, passwordHash],
-  );
+/**
+ * Whether any account exists (false means first-run setup is pending)
+ */
+export async function hasAnyUsers(): Promise<boolean> {
+  const database = await getDatabase();
 
-  // Fetch the created user
-  const newUser = await database.getFirstAsync<DatabaseUser>(
-    'SELECT * FROM users WHERE id = ?',
-    [result.lastInsertRowId],
+  const user = await database.getFirstAsync<{ id: number }>(
+    'SELECT id FROM users LIMIT 1',
   );
 
-  if (!newUser) {
-    console.error('Failed to fetch created user');
+  return user !== null;
+}
+
+/**
+ * Create the first admin account during first-run setup
+ * @returns User if created, null if an account already exists
+ */
+export async function createInitialAdmin(
+  username: string,
+  password: string,
+): Promise<User | null> {
+  if (await hasAnyUsers()) {
+    console.log('Setup already completed');
     return null;
   }
 
-  console.log('User created:', username);
-  
-  return {
-    id: newUser.id,
-    username: newUser.username,
-    createdAt: newUser.created_at,
-  };
+  return createUser(username, password, 'admin');
 }
 
-// ============================================
-// Record Operations
-// ============================================
-
 /**
- * Create a new client record
+ * Get all users, oldest first
  */
-export async function createRecord(
-  input: CreateRecordInput,
-): Promise<ClientRecord> {
+export async function getAllUsers(): Promise<User[]> {
   const database = await getDatabase();
 
-  const result = await database.runAsync(
-    'INSERT INTO records (ruc, client_name) VALUES (?, ?)',
-    [input.ruc, input.clientName],
+  const users = await database.getAllAsync<DatabaseUser>(
+    'SELECT * FROM users ORDER BY created_at ASC, id ASC',
   );
 
-  const record = await database.getFirstAsync<DatabaseRecord>(
-    'SELECT * FROM records WHERE id = ?',
-    [result.lastInsertRowId],
-  );
+  return users.map(mapDatabaseUserToUser);
+}
 
-  if (!record) {
-    throw new Error('Failed to create record');
-  }
+/**
+ * Replace a user's password (admin reset) and lift any login lockout, so
+ * the new password works right away
+ */
+export async function resetUserPassword(
+  userId: number,
+  newPassword: string,
+): Promise<boolean> {
+  const database = await getDatabase();
+  const passwordHash = await hashPassword(newPassword);
 
-  return mapDatabaseRecordToClientRecord(record);
+  return runTransaction(database, async () => {
+    const result = await database.runAsync(
+      'UPDATE users SET password_hash = ? WHERE id = ?',
+      [passwordHash, userId],
+    );
+
+    await database.runAsync(
+      'DELETE FROM login_attempts WHERE username = (SELECT username FROM users WHERE id = ?)',
+      [userId],
+    );
+
+    return result.changes > 0;
+  });
 }
 
 /**
- * Get all client records
+ * Change a user's own password after checking the current one.
+ * Throws TooManyAttemptsError while the username is throttled.
+ * @returns false if the current password is wrong
  */
-export async function getAllRecords(): Promise<ClientRecord[]> {
+export async function changePassword(
+  userId: number,
+  currentPassword: string,
+  newPassword: string,
+): Promise<boolean> {
   const database = await getDatabase();
 
-  const records = await database.getAllAsync<DatabaseRecord>(
-    'SELECT * FROM records ORDER BY created_at DESC',
+  const user = await database.getFirstAsync<DatabaseUser>(
+    'SELECT * FROM users WHERE id = ?',
+    [userId],
   );
 
-  return records.map(mapDatabaseRecordToClientRecord);
+  if (!user || !(await verifyOwnPassword(user, currentPassword))) {
+    return false;
+  }
+
+  const passwordHash = await hashPassword(newPassword);
+  await runWrite(database, 'UPDATE users SET password_hash = ? WHERE id = ?', [
+    passwordHash,
+    userId,
+  ]);
+
+  return true;
 }
 
 /**
- * Get a single record by ID
+ * Delete the user's own account after checking their password.
+ * Their records are handed over to the oldest remaining active admin.
+ * Throws TooManyAttemptsError while the username is throttled.
+ * @returns false if the password is wrong or no other admin exists
  */
-export async function getRecordById(id: number): Promise<ClientRecord | null> {
+export async function deleteOwnAccount(
+  userId: number,
+  password: string,
+): Promise<boolean> {
   const database = await getDatabase();
 
-  const record = await database.getFirstAsync<DatabaseRecord>(
-    'SELECT * FROM records WHERE id = ?',
-    [id],
+  const user = await database.getFirstAsync<DatabaseUser>(
+    'SELECT * FROM users WHERE id = ?',
+    [userId],
   );
 
-  if (!record) {
-    return null;
+  if (!user || !(await verifyOwnPassword(user, password))) {
+    return false;
   }
 
-  return mapDatabaseRecordToClientRecord(record);
+  const admin = await database.getFirstAsync<{ id: number }>(
+    `SELECT id FROM users
+     WHERE id != ? AND role = 'admin' AND is_active = 1
+     ORDER BY created_at ASC, id ASC`,
+    [userId],
+  );
+
+  if (!admin) {
+    return false;
+  }
+
+  return deleteUser(userId, admin.id, userId);
 }
 
 /**
- * Delete a record by ID
+ * Activate or deactivate an account.
+ * The last active admin cannot be deactivated.
  */
-export async function deleteRecord(id: number): Promise<boolean> {
+export async function setUserActive(
+  userId: number,
+  isActive: boolean,
+): Promise<boolean> {
   const database = await getDatabase();
 
-  const result = await database.runAsync('DELETE FROM records WHERE id = ?', [
-    id,
-  ]);
+  return runTransaction(database, async () => {
+    if (!isActive && (await isLastActiveAdmin(database, userId))) {
+      return false;
+    }
 
-  return result.changes > 0;
+    const result = await database.runAsync(
+      'UPDATE users SET is_active = ? WHERE id = ?',
+      [isActive ? 1 : 0, userId],
+    );
+
+    return result.changes > 0;
+  });
 }
 
 /**
- * Update an existing client record
+ * Change a user's role.
+ * The last active admin cannot be demoted.
  */
-export async function updateRecord(
-  input: UpdateRecordInput,
-): Promise<ClientRecord | null> {
+export async function setUserRole(
+  userId: number,
+  role: UserRole,
+): Promise<boolean> {
   const database = await getDatabase();
 
-  // Update the record and set updated_at to current timestamp
-  const result = await database.runAsync(
-    'UPDATE records SET ruc = ?, client_name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-    [input.ruc, input.clientName, input.id],
-  );
+  return runTransaction(database, async () => {
+    if (role !== 'admin' && (await isLastActiveAdmin(database, userId))) {
+      return false;
+    }
+
+    const result = await database.runAsync(
+      'UPDATE users SET role = ? WHERE id = ?',
+      [role, userId],
+    );
+
+    return result.changes > 0;
+  });
+}
 
-  if (result.changes === 0) {
-    return null; // Record not found
+/**
+ * Delete a user, handing their records over to another user.
+ * The last active admin cannot be deleted. Every merged, purged and
+ * reassigned record gets a history entry by `actorId`.
+ */
+export async function deleteUser(
+  userId: number,
+  reassignToUserId: number,
+  actorId: number,
+): Promise<boolean> {
+  const database = await getDatabase();
+
+  if (userId === reassignToUserId) {
+    return false;
   }
 
-  // Fetch the updated record
-  const record = await database.getFirstAsync<DatabaseRecord>(
-    'SELECT * FROM records WHERE id = ?',
-    [input.id],
+  if (await isLastActiveAdmin(database, userId)) {
+    return false;
+  }
+
+  const user = await database.getFirstAsync<DatabaseUser>(
+    'SELECT * FROM users WHERE id = ?',
+    [userId],
+  );
+  const target = await database.getFirstAsync<DatabaseUser>(
+    'SELECT * FROM users WHERE id = ?',
+    [reassignToUserId],
   );
 
-  if (!record) {
-    return null;
+  if (!user || !target) {
+    return false;
   }
 
-  return mapDatabaseRecordToClientRecord(record);
+  await runTransaction(database, async () => {
+    // Live RUCs both users registered merge into the target's record,
+    // keeping the newer one's name and details, so the (user_id, ruc)
+    // unique index holds
+    const duplicates = await database.getAllAsync<
+      DatabaseRecord & { target_id: number }
+    >(
+      `SELECT r.*, t.id AS target_id FROM records r
+       JOIN records t ON t.ruc = r.ruc AND t.user_id = ? AND t.deleted_at IS NULL
+       WHERE r.user_id = ? AND r.deleted_at IS NULL`,
+      [reassignToUserId, userId],
+    );
+
+    for (const { target_id: targetId, ...source } of duplicates) {
+      const kept = await database.getFirstAsync<DatabaseRecord>(
+        'SELECT * FROM records WHERE id = ?',
+        [targetId],
+      );
+
+      if (kept && source.updated_at > kept.updated_at) {
+        const merged: DatabaseRecord = {
+          ...kept,
+          client_name: source.client_name,
+          search_name: source.search_name,
+          address: source.address,
+          district: source.district,
+          province: source.province,
+          department: source.department,
+          phone: source.phone,
+          email: source.email,
+          notes: source.notes,
+          status: source.status,
+          updated_at: source.updated_at,
+        };
+
+        await database.runAsync(
+          `UPDATE records SET
+             client_name = ?, search_name = ?, address = ?, district = ?,
+             province = ?, department = ?, phone = ?, email = ?, notes = ?,
+             status = ?, updated_at = ?
+           WHERE id = ?`,
+          [
+            merged.client_name,
+            merged.search_name,
+            merged.address,
+            merged.district,
+            merged.province,
+            merged.department,
+            merged.phone,
+            merged.email,
+            merged.notes,
+            merged.status,
+            merged.updated_at,
+            targetId,
+          ],
+        );
+        await queueRecordSync(database, targetId, 'upsert');
+
+        const changes = diffRecords(kept, merged);
+        if (Object.keys(changes).length > 0) {
+          await insertRecordHistory(database, targetId, 'update', actorId, changes);
+        }
+      }
+
+      await insertRecordHistory(database, source.id, 'purge', actorId, diffRecords(source, null));
+      await queueRecordSync(database, source.id, 'delete');
+      await database.runAsync('DELETE FROM records WHERE id = ?', [source.id]);
+    }
+
+    // The rest, trashed ones included, change owner
+    const reassigned = await database.getAllAsync<{ id: number }>(
+      'SELECT id FROM records WHERE user_id = ?',
+      [userId],
+    );
+
+    for (const { id } of reassigned) {
+      await database.runAsync('UPDATE records SET user_id = ? WHERE id = ?', [
+        reassignToUserId,
+        id,
+      ]);
+      await insertRecordHistory(database, id, 'update', actorId, {
+        owner: { old: user.username, new: target.username },
+      });
+      await queueRecordSync(database, id, 'upsert');
+    }
+
+    await database.runAsync('DELETE FROM login_attempts WHERE username = ?', [
+      user.username,
+    ]);
+    await database.runAsync('DELETE FROM users WHERE id = ?', [userId]);
+  });
+
+  console.log('User deleted:', user.username, '-> records to', target.username);
+  return true;
 }
 
+// ============================================
+// Settings Operations
+// ============================================
+
 /**
- * Get the count of all records
+ * Get a raw setting value
  */
-export async function getRecordsCount(): Promise<number> {
+export async function getSetting(key: string): Promise<string | null> {
   const database = await getDatabase();
 
-  const result = await database.getFirstAsync<{ count: number }>(
-    'SELECT COUNT(*) as count FROM records',
+  const result = await database.getFirstAsync<{ value: string }>(
+    'SELECT value FROM app_settings WHERE key = ?',
+    [key],
   );
 
-  return result?.count ?? 0;
+  return result?.value ?? null;
 }
 
-// ============================================
-// Helper Functions
-// ============================================
+/**
+ * Set a raw setting value
+ */
+export async function setSetting(key: string, value: string): Promise<void> {
+  const database = await getDatabase();
+
+  await runWrite(
+    database,
+    'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    [key, value],
+  );
+}
 
 /**
- * Map database record to client record
+ * Whether new accounts may be created from the public register screen
+ * (enabled unless an admin turned it off)
  */
-function mapDatabaseRecordToClientRecord(record: DatabaseRecord): ClientRecord {
-  return {
-    id: record.id,
-    ruc: record.ruc,
-    clientName: record.client_name,
-    createdAt: record.created_at,
-    updatedAt: record.updated_at,
-  };
+export async function isSelfRegistrationEnabled(): Promise<boolean> {
+  const value = await getSetting(SETTINGS_KEYS.selfRegistrationEnabled);
+  return value !== 'false';
 }
 
 /**
- * Close the database connection
+ * Enable or disable open self-registration
  */
-export async function closeDatabase(): Promise<void> {
+export async function setSelfRegistrationEnabled(
+  enabled: boolean,
+): Promise<void> {
+  await setSetting(SETTINGS_KEYS.selfRegistrationEnabled, String(enabled));
+}
+
+/**
+ * Days a deleted record stays in the trash before it is purged
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  return parseTrashRetentionDays(
+    await getSetting(SETTINGS_KEYS.trashRetentionDays),
+  );
+}
+
+/**
+ * Set how many days deleted records stay in the trash
+ */
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await setSetting(SETTINGS_KEYS.trashRetentionDays, String(days));
+}
+
+function parseTrashRetentionDays(value: string | null): number {
+  const days = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// ============================================
+// Login Attempt Operations
+// ============================================
+
+/**
+ * Get the current throttle state for a username
+ */
+export async function getLoginThrottle(
+  username: string,
+): Promise<LoginThrottle> {
+  const database = await getDatabase();
+
+  const attempt = await database.getFirstAsync<DatabaseLoginAttempt>(
+    'SELECT * FROM login_attempts WHERE username = ?',
+    [username],
+  );
+
+  return computeLoginThrottle(attempt, Date.now());
+}
+
+/**
+ * Register a failed login and return the resulting throttle state
+ */
+export async function recordFailedLogin(
+  username: string,
+): Promise<LoginThrottle> {
+  const database = await getDatabase();
+  const now = Date.now();
+
+  // Read and write together so concurrent failures each count
+  return runTransaction(database, async () => {
+    const attempt = await database.getFirstAsync<DatabaseLoginAttempt>(
+      'SELECT * FROM login_attempts WHERE username = ?',
+      [username],
+    );
+
+    // A lockout that already expired starts a fresh count
+    const lockoutExpired =
+      attempt?.locked_until != null && attempt.locked_until <= now;
+    const failedCount =
+      !attempt || lockoutExpired ? 1 : attempt.failed_count + 1;
+    const lockedUntil =
+      failedCount >= LOGIN_LOCKOUT_ATTEMPTS
+        ? now + LOGIN_LOCKOUT_DURATION_MS
+        : null;
+
+    await database.runAsync(
+      `INSERT INTO login_attempts (username, failed_count, last_failed_at, locked_until)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(username) DO UPDATE SET
+         failed_count = excluded.failed_count,
+         last_failed_at = excluded.last_failed_at,
+         locked_until = excluded.locked_until`,
+      [username, failedCount, now, lockedUntil],
+    );
+
+    return computeLoginThrottle(
+      {
+        username,
+        failed_count: failedCount,
+        last_failed_at: now,
+        locked_until: lockedUntil,
+      },
+      now,
+    );
+  });
+}
+
+/**
+ * Clear failed login tracking after a successful login
+ */
+export async function resetLoginAttempts(username: string): Promise<void> {
+  const database = await getDatabase();
+
+  await runWrite(database, 'DELETE FROM login_attempts WHERE username = ?', [
+    username,
+  ]);
+}
+
+// ============================================
+// Record Operations
+// ============================================
+
+/**
+ * Create a new client record owned by the given user.
+ * Throws DuplicateRecordError if the user already registered the RUC and
+ * ValidationError if a field is invalid.
+ */
+export async function createRecord(
+  input: CreateRecordInput,
+): Promise<ClientRecord> {
+  return (await getRecordRepository()).create(input);
+}
+
+/**
+ * Get all client records owned by a user (every owner's for null),
+ * optionally filtered.
+ * Prefer getRecordsPage for lists; this is for bulk work such as exports.
+ */
+export async function getAllRecords(
+  userId: number | null,
+  filters: RecordFilters = {},
+): Promise<ClientRecord[]> {
+  const database = await getDatabase();
+  const { column, direction } = RECORD_SORT_KEYS[filters.sort ?? 'created_desc'];
+  const { where, params } = buildRecordFilterClause(userId, filters);
+
+  const records = await database.getAllAsync<DatabaseRecord>(
+    `SELECT * FROM records WHERE ${where} ORDER BY ${column} ${direction}, id ${direction}`,
+    params,
+  );
+
+  return records.map(mapDatabaseRecordToClientRecord);
+}
+
+/**
+ * Get one page of a user's records (every owner's for null) matching the
+ * filters. Uses keyset pagination on (sort column, id) so later pages cost the
+ * same as the first and rows inserted meanwhile don't shift the pages.
+ */
+export async function getRecordsPage(
+  userId: number | null,
+  filters: RecordFilters = {},
+  cursor: RecordCursor | null = null,
+  limit: number = RECORDS_PAGE_SIZE,
+): Promise<RecordPage> {
+  const database = await getDatabase();
+  const { column, direction } = RECORD_SORT_KEYS[filters.sort ?? 'created_desc'];
+  const { where, params } = buildRecordFilterClause(userId, filters);
+
+  let pageWhere = where;
+  const pageParams = [...params];
+
+  if (cursor) {
+    pageWhere += ` AND (${column}, id) ${direction === 'DESC' ? '<' : '>'} (?, ?)`;
+    pageParams.push(cursor.sortValue, cursor.id);
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await database.getAllAsync<DatabaseRecord>(
+    `SELECT * FROM records WHERE ${pageWhere}
+     ORDER BY ${column} ${direction}, id ${direction}
+     LIMIT ?`,
+    [...pageParams, limit + 1],
+  );
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    records: pageRows.map(mapDatabaseRecordToClientRecord),
+    nextCursor: hasMore && last ? { sortValue: last[column], id: last.id } : null,
+    totalCount: await countRecords(userId, filters),
+  };
+}
+
+/**
+ * Count a user's records (every owner's for null) matching the filters
+ */
+export async function countRecords(
+  userId: number | null,
+  filters: RecordFilters = {},
+): Promise<number> {
+  const database = await getDatabase();
+  const { where, params } = buildRecordFilterClause(userId, filters);
+
+  const result = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM records WHERE ${where}`,
+    params,
+  );
+
+  return result?.count ?? 0;
+}
+
+/**
+ * Find the user's record with the given RUC, if any
+ */
+export async function findRecordByRuc(
+  userId: number,
+  ruc: string,
+): Promise<ClientRecord | null> {
+  return (await getRecordRepository()).findByRuc(userId, ruc);
+}
+
+/**
+ * Get a single record by ID, only if owned by the user (any owner's for
+ * null)
+ */
+export async function getRecordById(
+  id: number,
+  userId: number | null,
+): Promise<ClientRecord | null> {
+  if (userId !== null) {
+    return (await getRecordRepository()).getById(id, userId);
+  }
+
+  const database = await getDatabase();
+
+  const record = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE id = ? AND deleted_at IS NULL',
+    [id],
+  );
+
+  if (!record) {
+    return null;
+  }
+
+  return mapDatabaseRecordToClientRecord(record);
+}
+
+/**
+ * Move a record to the trash, only if owned by the user. `actorId` is
+ * logged as who did it when it isn't the owner (an admin).
+ * It can be restored until the retention period purges it.
+ */
+export async function deleteRecord(
+  id: number,
+  userId: number,
+  actorId: number = userId,
+): Promise<boolean> {
+  return (await getRecordRepository()).delete(id, userId, actorId);
+}
+
+/**
+ * Get the records in a user's trash (every owner's for null), most
+ * recently deleted first
+ */
+export async function getDeletedRecords(
+  userId: number | null,
+): Promise<ClientRecord[]> {
+  const database = await getDatabase();
+
+  const records = await database.getAllAsync<DatabaseRecord>(
+    `SELECT * FROM records
+     WHERE (? IS NULL OR user_id = ?) AND deleted_at IS NOT NULL
+     ORDER BY deleted_at DESC, id DESC`,
+    [userId, userId],
+  );
+
+  return records.map(mapDatabaseRecordToClientRecord);
+}
+
+/**
+ * Bring a record back from the trash.
+ * Throws DuplicateRecordError if the RUC was registered again meanwhile.
+ */
+export async function restoreRecord(
+  id: number,
+  userId: number,
+  actorId: number = userId,
+): Promise<ClientRecord | null> {
+  const database = await getDatabase();
+
+  const record = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL',
+    [id, userId],
+  );
+
+  if (!record) {
+    return null;
+  }
+
+  await runTransaction(database, async () => {
+    const existing = await createRecordRepository(database).findByRuc(userId, record.ruc);
+    if (existing) {
+      throw new DuplicateRecordError(existing);
+    }
+
+    await database.runAsync(
+      'UPDATE records SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+      [id, userId],
+    );
+    await insertRecordHistory(database, id, 'restore', actorId, {});
+    await queueRecordSync(database, id, 'upsert');
+  });
+
+  return mapDatabaseRecordToClientRecord({ ...record, deleted_at: null });
+}
+
+/**
+ * Permanently delete a record that is already in the trash
+ */
+export async function purgeRecord(
+  id: number,
+  userId: number,
+  actorId: number = userId,
+): Promise<boolean> {
+  const database = await getDatabase();
+  let purged = 0;
+
+  await runTransaction(database, async () => {
+    purged = await purgeTrashedRecords(
+      database,
+      'id = ? AND user_id = ?',
+      [id, userId],
+      actorId,
+    );
+  });
+
+  return purged > 0;
+}
+
+/**
+ * Permanently delete every record in a user's trash (every owner's for
+ * null), logged as done by `actorId`
+ */
+export async function emptyTrash(
+  userId: number | null,
+  actorId: number,
+): Promise<number> {
+  const database = await getDatabase();
+  let purged = 0;
+
+  await runTransaction(database, async () => {
+    purged = await purgeTrashedRecords(
+      database,
+      '(? IS NULL OR user_id = ?)',
+      [userId, userId],
+      actorId,
+    );
+  });
+
+  return purged;
+}
+
+/**
+ * Permanently delete trashed records older than the retention period.
+ * Runs for all users when the database opens.
+ */
+async function purgeExpiredRecords(
+  database: SQLite.SQLiteDatabase,
+): Promise<void> {
+  const setting = await database.getFirstAsync<{ value: string }>(
+    'SELECT value FROM app_settings WHERE key = ?',
+    [SETTINGS_KEYS.trashRetentionDays],
+  );
+  const days = parseTrashRetentionDays(setting?.value ?? null);
+  let purged = 0;
+
+  await runTransaction(database, async () => {
+    purged = await purgeTrashedRecords(
+      database,
+      "deleted_at < datetime('now', ?)",
+      [`-${days} days`],
+      null,
+    );
+  });
+
+  if (purged > 0) {
+    console.log('Purged expired records from trash:', purged);
+  }
+}
+
+/**
+ * Update an existing client record, only if owned by `input.userId`.
+ * `actorId` is logged as who did it when it isn't the owner (an admin).
+ * Throws NotFoundError if it doesn't exist (or is in the trash),
+ * DuplicateRecordError if another of the owner's records has the RUC and
+ * ValidationError if a field is invalid.
+ */
+export async function updateRecord(
+  input: UpdateRecordInput,
+  actorId: number = input.userId,
+): Promise<ClientRecord> {
+  return (await getRecordRepository()).update(input, actorId);
+}
+
+/**
+ * Import validated rows in a single transaction. Rows with errors are
+ * ignored; rows whose RUC is already registered are skipped or update the
+ * client name depending on the mode. Duplicates are resolved again here
+ * since records may have changed after the preview was built.
+ */
+export async function importRecords(
+  userId: number,
+  rows: ImportRow[],
+  duplicateMode: ImportDuplicateMode,
+): Promise<ImportResult> {
+  const database = await getDatabase();
+  const result: ImportResult = { created: 0, updated: 0, skipped: 0 };
+
+  await runTransaction(database, async () => {
+    for (const row of rows) {
+      if (row.errors.length > 0) {
+        continue;
+      }
+
+      const existing = await database.getFirstAsync<DatabaseRecord>(
+        'SELECT * FROM records WHERE user_id = ? AND ruc = ? AND deleted_at IS NULL',
+        [userId, row.ruc],
+      );
+
+      if (!existing) {
+        await insertRecordRow(database, {
+          userId,
+          ruc: row.ruc,
+          clientName: row.clientName,
+        });
+        result.created++;
+      } else if (duplicateMode === 'update' && existing.client_name !== row.clientName) {
+        await updateRecordRow(database, {
+          id: existing.id,
+          userId,
+          ruc: row.ruc,
+          clientName: row.clientName,
+        });
+        result.updated++;
+      } else {
+        result.skipped++;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Get the change history of a record owned by the user (any owner's for
+ * null), newest first
+ */
+export async function getRecordHistory(
+  recordId: number,
+  userId: number | null,
+): Promise<RecordHistoryEntry[]> {
+  const database = await getDatabase();
+
+  const rows = await database.getAllAsync<DatabaseRecordHistory>(
+    `SELECT h.* FROM record_history h
+     JOIN records r ON r.id = h.record_id
+     WHERE h.record_id = ? AND (? IS NULL OR r.user_id = ?)
+     ORDER BY h.id DESC`,
+    [recordId, userId, userId],
+  );
+
+  return rows.map(mapDatabaseHistoryToEntry);
+}
+
+/**
+ * Get the count of records owned by a user (every owner's for null)
+ */
+export async function getRecordsCount(userId: number | null): Promise<number> {
+  return countRecords(userId);
+}
+
+// ============================================
+// Backup Operations
+// ============================================
+
+// Sync state of this device: another device's cursor would skip changes
+const DEVICE_SETTINGS_KEYS = [SETTINGS_KEYS.syncEndpoint, SETTINGS_KEYS.syncCursor];
+
+/**
+ * Write backup contents (already migrated to the current schema) into the
+ * database in a single transaction.
+ *
+ * Accounts are matched by username: existing ones keep their password and
+ * missing ones are created without one, so an admin must reset it before
+ * they can log in. In replace mode the current records, history and
+ * settings are discarded first, and local records missing from the
+ * archive are queued for deletion on the server; in merge mode archive
+ * records are added and a RUC both sides have keeps whichever version was
+ * edited last. The sync server and cursor always stay as they are.
+ */
+export async function applyBackup(
+  contents: BackupContents,
+  mode: RestoreMode,
+  actorId: number,
+): Promise<RestoreResult> {
+  const database = await getDatabase();
+  const result: RestoreResult = { usersCreated: 0, recordsRestored: 0 };
+
+  await runTransaction(database, async () => {
+    // Archive user ID -> user ID on this device
+    const userIds = new Map<number, number>();
+
+    for (const user of contents.users) {
+      const existing = await database.getFirstAsync<{ id: number }>(
+        'SELECT id FROM users WHERE username = ?',
+        [user.username],
+      );
+
+      if (existing) {
+        userIds.set(user.id, existing.id);
+        continue;
+      }
+
+      const inserted = await database.runAsync(
+        `INSERT INTO users (username, password_hash, role, is_active, last_login_at, created_at)
+         VALUES (?, '', ?, ?, ?, ?)`,
+        [user.username, user.role, user.is_active, user.last_login_at, user.created_at],
+      );
+      userIds.set(user.id, inserted.lastInsertRowId);
+      result.usersCreated++;
+    }
+
+    const ownerOf = (record: DatabaseRecord) => userIds.get(record.user_id) ?? actorId;
+    const actorOf = (entry: DatabaseRecordHistory) =>
+      entry.actor_id === null ? null : (userIds.get(entry.actor_id) ?? null);
+
+    if (mode === 'replace') {
+      // The server must drop what this device had and the archive doesn't;
+      // outbox entries still waiting (e.g. purges) are kept
+      const archiveSyncIds = new Set(contents.records.map((record) => record.sync_id));
+      const local = await database.getAllAsync<{ id: number; sync_id: string }>(
+        'SELECT id, sync_id FROM records',
+      );
+
+      for (const record of local) {
+        if (!archiveSyncIds.has(record.sync_id)) {
+          await queueRecordSync(database, record.id, 'delete');
+        }
+      }
+
+      await database.execAsync(`
+        DELETE FROM record_history;
+        DELETE FROM records;
+      `);
+      await database.runAsync(
+        `DELETE FROM app_settings WHERE key NOT IN (${DEVICE_SETTINGS_KEYS.map(() => '?').join(', ')})`,
+        DEVICE_SETTINGS_KEYS,
+      );
+
+      for (const record of contents.records) {
+        await insertBackupRecord(database, record, ownerOf(record), record.id);
+        await queueRecordSync(database, record.id, 'upsert');
+      }
+      for (const entry of contents.history) {
+        await insertBackupHistory(database, entry, entry.record_id, actorOf(entry), entry.id);
+      }
+      result.recordsRestored = contents.records.length;
+    } else {
+      for (const record of contents.records) {
+        const userId = ownerOf(record);
+        const existing = await database.getFirstAsync<DatabaseRecord>(
+          `SELECT * FROM records WHERE user_id = ? AND ruc = ?
+           ORDER BY deleted_at IS NOT NULL, id LIMIT 1`,
+          [userId, record.ruc],
+        );
+
+        if (!existing) {
+          const recordId = await insertBackupRecord(database, record, userId, null);
+          await queueRecordSync(database, recordId, 'upsert');
+          for (const entry of contents.history) {
+            if (entry.record_id === record.id) {
+              await insertBackupHistory(database, entry, recordId, actorOf(entry), null);
+            }
+          }
+          result.recordsRestored++;
+        } else if (
+          existing.deleted_at === null &&
+          record.deleted_at === null &&
+          record.updated_at > existing.updated_at
+        ) {
+          await updateRecordRow(
+            database,
+            {
+              id: existing.id,
+              userId,
+              ruc: record.ruc,
+              clientName: record.client_name,
+              address: record.address,
+              district: record.district,
+              province: record.province,
+              department: record.department,
+              phone: record.phone,
+              email: record.email,
+              notes: record.notes,
+              status: record.status,
+            },
+            actorId,
+          );
+          result.recordsRestored++;
+        }
+      }
+    }
+
+    // In merge mode settings already on the device win
+    for (const setting of contents.settings) {
+      if (DEVICE_SETTINGS_KEYS.includes(setting.key)) {
+        continue;
+      }
+      await database.runAsync(
+        'INSERT OR IGNORE INTO app_settings (key, value) VALUES (?, ?)',
+        [setting.key, setting.value],
+      );
+    }
+  });
+
+  return result;
+}
+
+// ============================================
+// Sync Operations
+// ============================================
+
+/**
+ * Get the sync server URL, or null if sync is not configured
+ */
+export async function getSyncEndpoint(): Promise<string | null> {
+  const value = await getSetting(SETTINGS_KEYS.syncEndpoint);
+  return value ? value : null;
+}
+
+/**
+ * Set the sync server URL (empty to turn sync off). Changing server
+ * resets the pull cursor so everything is pulled again.
+ */
+export async function setSyncEndpoint(endpoint: string): Promise<void> {
+  const current = await getSyncEndpoint();
+  const next = endpoint.trim().replace(/\/+$/, '');
+
+  if (next !== (current ?? '')) {
+    await setSetting(SETTINGS_KEYS.syncEndpoint, next);
+    await setSetting(SETTINGS_KEYS.syncCursor, '');
+  }
+}
+
+/**
+ * Cursor returned by the last pull; empty before the first one
+ */
+export async function getSyncCursor(): Promise<string> {
+  return (await getSetting(SETTINGS_KEYS.syncCursor)) ?? '';
+}
+
+export async function setSyncCursor(cursor: string): Promise<void> {
+  await setSetting(SETTINGS_KEYS.syncCursor, cursor);
+}
+
+/**
+ * Remember when a sync run last completed without errors
+ */
+export async function markSyncSucceeded(): Promise<void> {
+  await setSetting(SETTINGS_KEYS.syncLastSuccessAt, new Date().toISOString());
+}
+
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const database = await getDatabase();
+
+  const counts = await database.getFirstAsync<{ pending: number; failing: number }>(
+    `SELECT COUNT(*) AS pending, COALESCE(SUM(attempts > 0), 0) AS failing
+     FROM record_outbox`,
+  );
+  const lastFailure = await database.getFirstAsync<{ last_error: string }>(
+    `SELECT last_error FROM record_outbox
+     WHERE last_error IS NOT NULL ORDER BY next_attempt_at DESC LIMIT 1`,
+  );
+
+  return {
+    pending: counts?.pending ?? 0,
+    failing: counts?.failing ?? 0,
+    lastError: lastFailure?.last_error ?? null,
+    lastSyncAt: await getSetting(SETTINGS_KEYS.syncLastSuccessAt),
+  };
+}
+
+/**
+ * Read the oldest outbox changes that are due to be pushed.
+ * Upserts carry the record as it is now, so several edits made while
+ * offline are pushed as one.
+ */
+export async function getDueSyncChanges(
+  limit: number,
+): Promise<PendingSyncChange[]> {
+  const database = await getDatabase();
+
+  const entries = await database.getAllAsync<DatabaseOutboxEntry>(
+    'SELECT * FROM record_outbox WHERE next_attempt_at <= ? ORDER BY id LIMIT ?',
+    [Date.now(), limit],
+  );
+
+  const pending: PendingSyncChange[] = [];
+
+  for (const entry of entries) {
+    if (entry.operation === 'delete') {
+      pending.push({
+        change: { operation: 'delete', syncId: entry.sync_id },
+        revision: entry.revision,
+        attempts: entry.attempts,
+      });
+      continue;
+    }
+
+    const record = await database.getFirstAsync<DatabaseRecord & { owner: string }>(
+      `SELECT r.*, u.username AS owner FROM records r
+       JOIN users u ON u.id = r.user_id
+       WHERE r.sync_id = ?`,
+      [entry.sync_id],
+    );
+
+    if (!record) {
+      // The record was deleted without queueing its delete; there is
+      // nothing left to push
+      await database.runAsync(
+        'DELETE FROM record_outbox WHERE id = ? AND revision = ?',
+        [entry.id, entry.revision],
+      );
+      continue;
+    }
+
+    pending.push({
+      change: {
+        operation: 'upsert',
+        syncId: entry.sync_id,
+        record: mapDatabaseRecordToSyncRecord(record, record.owner),
+      },
+      revision: entry.revision,
+      attempts: entry.attempts,
+    });
+  }
+
+  return pending;
+}
+
+/**
+ * Drop pushed changes from the outbox. Entries changed again after they
+ * were read keep their newer revision and are pushed on the next run.
+ */
+export async function acknowledgeSyncChanges(
+  pushed: PendingSyncChange[],
+): Promise<void> {
+  const database = await getDatabase();
+
+  await runTransaction(database, async () => {
+    for (const { change, revision } of pushed) {
+      await database.runAsync(
+        'DELETE FROM record_outbox WHERE sync_id = ? AND revision = ?',
+        [change.syncId, revision],
+      );
+    }
+  });
+}
+
+/**
+ * Schedule failed changes for a retry with exponential backoff
+ */
+export async function failSyncChanges(
+  failed: PendingSyncChange[],
+  error: string,
+): Promise<void> {
+  const database = await getDatabase();
+  const now = Date.now();
+
+  await runTransaction(database, async () => {
+    for (const { change, revision, attempts } of failed) {
+      await database.runAsync(
+        `UPDATE record_outbox
+         SET attempts = attempts + 1, next_attempt_at = ?, last_error = ?
+         WHERE sync_id = ? AND revision = ?`,
+        [now + computeSyncRetryDelay(attempts + 1), error, change.syncId, revision],
+      );
+    }
+  });
+}
+
+/**
+ * Apply changes pulled from the server in a single transaction.
+ * Changes are written without queueing them back to the outbox.
+ */
+export async function applyRemoteChanges(
+  changes: SyncChange[],
+): Promise<{ applied: number; conflicts: number }> {
+  const database = await getDatabase();
+  const result = { applied: 0, conflicts: 0 };
+
+  await runTransaction(database, async () => {
+    for (const change of changes) {
+      const outcome = await applyRemoteChange(database, change);
+      if (outcome.applied) {
+        result.applied++;
+      }
+      if (outcome.conflict) {
+        result.conflicts++;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Get the user's unresolved sync conflicts, newest first
+ */
+export async function getSyncConflicts(userId: number): Promise<SyncConflict[]> {
+  const database = await getDatabase();
+
+  const rows = await database.getAllAsync<DatabaseSyncConflict>(
+    `SELECT * FROM sync_conflicts
+     WHERE user_id = ? AND resolved_at IS NULL
+     ORDER BY id DESC`,
+    [userId],
+  );
+
+  return rows.map(mapDatabaseConflictToSyncConflict);
+}
+
+/**
+ * Dismiss a conflict, keeping the version that won
+ */
+export async function resolveSyncConflict(
+  id: number,
+  userId: number,
+): Promise<boolean> {
+  const database = await getDatabase();
+
+  const result = await runWrite(
+    database,
+    `UPDATE sync_conflicts SET resolved_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND user_id = ? AND resolved_at IS NULL`,
+    [id, userId],
+  );
+
+  return result.changes > 0;
+}
+
+/**
+ * Save the version that lost a conflict as a new edit, which is then
+ * synced like any other, and dismiss the conflict in the same
+ * transaction. Returns null if the conflict was not found or the losing
+ * side was a delete.
+ */
+export async function keepDiscardedVersion(
+  id: number,
+  userId: number,
+): Promise<ClientRecord | null> {
+  const database = await getDatabase();
+
+  const row = await database.getFirstAsync<DatabaseSyncConflict>(
+    'SELECT * FROM sync_conflicts WHERE id = ? AND user_id = ? AND resolved_at IS NULL',
+    [id, userId],
+  );
+
+  if (!row) {
+    return null;
+  }
+
+  const conflict = mapDatabaseConflictToSyncConflict(row);
+  const discarded = conflict.winner === 'local' ? conflict.remote : conflict.local;
+
+  if (!discarded) {
+    return null;
+  }
+
+  const fields = {
+    userId,
+    ruc: discarded.ruc,
+    clientName: discarded.clientName,
+    address: discarded.address,
+    district: discarded.district,
+    province: discarded.province,
+    department: discarded.department,
+    phone: discarded.phone,
+    email: discarded.email,
+    notes: discarded.notes,
+    status: discarded.status,
+  };
+
+  assertValidRecordInput(fields);
+
+  // The edit and the dismissal are saved together
+  const record = await runTransaction(database, async () => {
+    const existing = await database.getFirstAsync<{ id: number }>(
+      'SELECT id FROM records WHERE user_id = ? AND ruc = ? AND deleted_at IS NULL',
+      [userId, discarded.ruc],
+    );
+
+    const saved = existing
+      ? await updateRecordRow(database, { ...fields, id: existing.id })
+      : await insertRecordRow(database, fields);
+
+    if (!saved) {
+      throw new StorageError('Kept conflict version could not be read back');
+    }
+
+    await database.runAsync(
+      'UPDATE sync_conflicts SET resolved_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [id],
+    );
+    return saved;
+  });
+
+  return mapDatabaseRecordToClientRecord(record);
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+// Sort column per option; id breaks ties so the keyset order is total
+const RECORD_SORT_KEYS: Record<
+  RecordSortOption,
+  {
+    column: 'created_at' | 'updated_at' | 'search_name';
+    direction: 'ASC' | 'DESC';
+  }
+> = {
+  created_desc: { column: 'created_at', direction: 'DESC' },
+  created_asc: { column: 'created_at', direction: 'ASC' },
+  updated_desc: { column: 'updated_at', direction: 'DESC' },
+  name_asc: { column: 'search_name', direction: 'ASC' },
+  name_desc: { column: 'search_name', direction: 'DESC' },
+};
+
+/**
+ * Build the WHERE clause shared by record queries that accept filters
+ */
+function buildRecordFilterClause(
+  userId: number | null,
+  filters: RecordFilters,
+): { where: string; params: SQLite.SQLiteBindValue[] } {
+  const conditions = ['deleted_at IS NULL'];
+  const params: SQLite.SQLiteBindValue[] = [];
+
+  if (userId !== null) {
+    conditions.push('user_id = ?');
+    params.push(userId);
+  }
+
+  const query = normalizeSearchText(filters.query ?? '');
+  if (query) {
+    const nameCondition = buildNameSearchCondition(query);
+    if (/^\d+$/.test(query)) {
+      // Digits may be the start of a RUC or part of a name. GLOB (unlike
+      // LIKE) matches a prefix through the (user_id, ruc) index.
+      conditions.push(`(ruc GLOB ? OR ${nameCondition.sql})`);
+      params.push(`${query}*`, nameCondition.param);
+    } else {
+      conditions.push(nameCondition.sql);
+      params.push(nameCondition.param);
+    }
+  }
+
+  if (filters.rucTypes && filters.rucTypes.length > 0) {
+    conditions.push(
+      `substr(ruc, 1, 2) IN (${filters.rucTypes.map(() => '?').join(', ')})`,
+    );
+    params.push(...filters.rucTypes);
+  }
+
+  if (filters.dateFrom) {
+    conditions.push('created_at >= ?');
+    params.push(localDateToSqlTimestamp(filters.dateFrom, 0));
+  }
+
+  if (filters.dateTo) {
+    // Inclusive end date: everything before the start of the next day
+    conditions.push('created_at < ?');
+    params.push(localDateToSqlTimestamp(filters.dateTo, 1));
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Match normalized client names containing the query. Queries of 3+
+ * characters go through the records_search trigram index as a quoted
+ * phrase; shorter ones have no trigram to look up and scan search_name.
+ */
+function buildNameSearchCondition(query: string): {
+  sql: string;
+  param: string;
+} {
+  if (Array.from(query).length >= 3) {
+    return {
+      sql: 'id IN (SELECT rowid FROM records_search WHERE records_search MATCH ?)',
+      param: `"${query.replace(/"/g, '""')}"`,
+    };
+  }
+
+  return {
+    sql: "search_name LIKE ? ESCAPE '\\'",
+    param: `%${escapeLikePattern(query)}%`,
+  };
+}
+
+/**
+ * Convert a local 'YYYY-MM-DD' date (plus a day offset) to the UTC
+ * 'YYYY-MM-DD HH:MM:SS' format written by CURRENT_TIMESTAMP
+ */
+function localDateToSqlTimestamp(date: string, dayOffset: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const local = new Date(year, month - 1, day + dayOffset);
+  return local.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Tail of the transactions waiting to run. The app shares one connection,
+// where a second BEGIN fails while one is open and its ROLLBACK would
+// undo the first, so a background sync can't overlap a user's save.
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run work in a transaction and return its result, after any transaction
+ * already running or queued. `work` must not call runTransaction itself.
+ * The typed service errors pass through; anything else (a SQLite failure)
+ * is rethrown as a StorageError after the rollback.
+ */
+function runTransaction<T>(
+  database: SQLite.SQLiteDatabase,
+  work: () => Promise<T>,
+): Promise<T> {
+  const run = transactionQueue.then(() => executeTransaction(database, work));
+  transactionQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Run a single statement through the transaction queue, so it can't run
+ * inside another caller's open transaction and be rolled back with it.
+ * Same errors as runTransaction; must not be called from its `work`.
+ */
+function runWrite(
+  database: SQLite.SQLiteDatabase,
+  sql: string,
+  params: SQLite.SQLiteBindValue[],
+): Promise<SQLite.SQLiteRunResult> {
+  return runTransaction(database, () => database.runAsync(sql, params));
+}
+
+async function executeTransaction<T>(
+  database: SQLite.SQLiteDatabase,
+  work: () => Promise<T>,
+): Promise<T> {
+  let result: T | undefined;
+
+  try {
+    await database.withTransactionAsync(async () => {
+      result = await work();
+    });
+  } catch (error) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ConflictError ||
+      error instanceof ValidationError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    console.error('Transaction failed:', error);
+    throw new StorageError('Transaction failed', error);
+  }
+
+  return result as T;
+}
+
+// Columns tracked in record_history, keyed by ClientRecord field
+// The owner is logged by username when records change hands (deleteUser)
+const AUDITED_RECORD_FIELDS: Record<
+  Exclude<RecordAuditField, 'owner'>,
+  keyof DatabaseRecord
+> = {
+  ruc: 'ruc',
+  clientName: 'client_name',
+  address: 'address',
+  district: 'district',
+  province: 'province',
+  department: 'department',
+  phone: 'phone',
+  email: 'email',
+  notes: 'notes',
+  status: 'status',
+};
+
+/**
+ * Insert a record and log its creation. Must run inside a transaction.
+ */
+async function insertRecordRow(
+  database: SQLite.SQLiteDatabase,
+  input: CreateRecordInput,
+): Promise<DatabaseRecord | null> {
+  const details = resolveRecordDetails(input, null);
+  const result = await database.runAsync(
+    `INSERT INTO records (
+       user_id, ruc, client_name, search_name, address, district,
+       province, department, phone, email, notes, status, sync_id
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, lower(hex(randomblob(16))))`,
+    [
+      input.userId,
+      input.ruc,
+      input.clientName,
+      normalizeSearchText(input.clientName),
+      details.address,
+      details.district,
+      details.province,
+      details.department,
+      details.phone,
+      details.email,
+      details.notes,
+      details.status,
+    ],
+  );
+
+  const record = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE id = ?',
+    [result.lastInsertRowId],
+  );
+
+  if (record) {
+    await insertRecordHistory(
+      database,
+      record.id,
+      'create',
+      input.userId,
+      diffRecords(null, record),
+    );
+    await queueRecordSync(database, record.id, 'upsert');
+  }
+
+  return record;
+}
+
+/**
+ * Update a live record owned by the user and log the changes.
+ * Must run inside a transaction. Returns null if the record wasn't found.
+ */
+async function updateRecordRow(
+  database: SQLite.SQLiteDatabase,
+  input: UpdateRecordInput,
+  actorId: number = input.userId,
+): Promise<DatabaseRecord | null> {
+  const before = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE id = ? AND user_id = ? AND deleted_at IS NULL',
+    [input.id, input.userId],
+  );
+
+  if (!before) {
+    return null; // Record not found or not owned by the user
+  }
+
+  // Update the record and set updated_at to current timestamp
+  const details = resolveRecordDetails(input, before);
+  await database.runAsync(
+    `UPDATE records SET
+       ruc = ?, client_name = ?, search_name = ?, address = ?, district = ?,
+       province = ?, department = ?, phone = ?, email = ?, notes = ?,
+       status = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [
+      input.ruc,
+      input.clientName,
+      normalizeSearchText(input.clientName),
+      details.address,
+      details.district,
+      details.province,
+      details.department,
+      details.phone,
+      details.email,
+      details.notes,
+      details.status,
+      input.id,
+    ],
+  );
+
+  const record = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE id = ?',
+    [input.id],
+  );
+
+  if (record) {
+    await insertRecordHistory(
+      database,
+      input.id,
+      'update',
+      actorId,
+      diffRecords(before, record),
+    );
+    await queueRecordSync(database, input.id, 'upsert');
+  }
+
+  return record;
+}
+
+/**
+ * Insert a record row from a backup as is, keeping its timestamps and
+ * sync ID (unless another record here already uses it).
+ * Pass an ID to keep the original one. Returns the record ID.
+ */
+async function insertBackupRecord(
+  database: SQLite.SQLiteDatabase,
+  record: DatabaseRecord,
+  userId: number,
+  id: number | null,
+): Promise<number> {
+  const result = await database.runAsync(
+    `INSERT INTO records (
+       id, user_id, ruc, client_name, search_name, address, district,
+       province, department, phone, email, notes, status,
+       created_at, updated_at, deleted_at, sync_id
+     ) VALUES (
+       ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+       CASE WHEN EXISTS (SELECT 1 FROM records WHERE sync_id = ?)
+         THEN lower(hex(randomblob(16))) ELSE ? END
+     )`,
+    [
+      id,
+      userId,
+      record.ruc,
+      record.client_name,
+      normalizeSearchText(record.client_name),
+      record.address,
+      record.district,
+      record.province,
+      record.department,
+      record.phone,
+      record.email,
+      record.notes,
+      record.status,
+      record.created_at,
+      record.updated_at,
+      record.deleted_at,
+      record.sync_id,
+      record.sync_id,
+    ],
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Insert a history entry from a backup, pointing it at the given record
+ */
+async function insertBackupHistory(
+  database: SQLite.SQLiteDatabase,
+  entry: DatabaseRecordHistory,
+  recordId: number,
+  actorId: number | null,
+  id: number | null,
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO record_history (
+       id, record_id, action, actor_id, actor_username, changes, created_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      recordId,
+      entry.action,
+      actorId,
+      entry.actor_username,
+      entry.changes,
+      entry.created_at,
+    ],
+  );
+}
+
+/**
+ * Old/new values of the audited fields that differ between two versions
+ * of a record; null on either side means it didn't exist
+ */
+function diffRecords(
+  before: DatabaseRecord | null,
+  after: DatabaseRecord | null,
+): RecordChanges {
+  const changes: RecordChanges = {};
+
+  for (const [field, column] of Object.entries(AUDITED_RECORD_FIELDS) as [
+    Exclude<RecordAuditField, 'owner'>,
+    keyof DatabaseRecord,
+  ][]) {
+    const oldValue = before ? (before[column] as string | null) : null;
+    const newValue = after ? (after[column] as string | null) : null;
+
+    if (oldValue !== newValue) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append a history entry. Call inside the transaction that changes the
+ * record so the two are written together. A null actor is the app itself
+ * (e.g. the retention purge).
+ */
+async function insertRecordHistory(
+  database: SQLite.SQLiteDatabase,
+  recordId: number,
+  action: RecordHistoryAction,
+  actorId: number | null,
+  changes: RecordChanges,
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO record_history (record_id, action, actor_id, actor_username, changes)
+     VALUES (?, ?, ?, (SELECT username FROM users WHERE id = ?), ?)`,
+    [recordId, action, actorId, actorId, JSON.stringify(changes)],
+  );
+}
+
+/**
+ * Hard-delete trashed records matching `where`, logging a purge entry
+ * with their last values for each. Call inside a transaction.
+ */
+async function purgeTrashedRecords(
+  database: SQLite.SQLiteDatabase,
+  where: string,
+  params: SQLite.SQLiteBindValue[],
+  actorId: number | null,
+): Promise<number> {
+  const rows = await database.getAllAsync<DatabaseRecord>(
+    `SELECT * FROM records WHERE deleted_at IS NOT NULL AND ${where}`,
+    params,
+  );
+
+  for (const row of rows) {
+    await insertRecordHistory(
+      database,
+      row.id,
+      'purge',
+      actorId,
+      diffRecords(row, null),
+    );
+    await queueRecordSync(database, row.id, 'delete');
+    await database.runAsync('DELETE FROM records WHERE id = ?', [row.id]);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Queue a record for the next push. Call inside the transaction that
+ * changes it, and before deleting it. One outbox row is kept per record;
+ * a newer change replaces the pending one and retries it right away.
+ */
+async function queueRecordSync(
+  database: SQLite.SQLiteDatabase,
+  recordId: number,
+  operation: SyncOperation,
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO record_outbox (sync_id, operation)
+     SELECT sync_id, ? FROM records WHERE id = ?
+     ON CONFLICT(sync_id) DO UPDATE SET
+       operation = excluded.operation,
+       revision = revision + 1,
+       attempts = 0,
+       next_attempt_at = 0,
+       last_error = NULL`,
+    [operation, recordId],
+  );
+}
+
+/**
+ * Apply one server change. Returns whether it was written and whether it
+ * clashed with a change made here that wasn't pushed yet.
+ *
+ * Conflicts are settled by updated_at (the newer version wins) and logged
+ * in sync_conflicts. Deletes always win, since they can't be undone on the
+ * other side. Two records with the same owner and RUC (registered on
+ * different devices) collapse into the newer one.
+ */
+async function applyRemoteChange(
+  database: SQLite.SQLiteDatabase,
+  change: SyncChange,
+): Promise<{ applied: boolean; conflict: boolean }> {
+  const local = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE sync_id = ?',
+    [change.syncId],
+  );
+  const pending = await database.getFirstAsync<DatabaseOutboxEntry>(
+    'SELECT * FROM record_outbox WHERE sync_id = ?',
+    [change.syncId],
+  );
+
+  if (change.operation === 'delete') {
+    if (!local) {
+      return { applied: false, conflict: false };
+    }
+
+    if (pending) {
+      await insertSyncConflict(database, local.user_id, 'remote', await toSyncRecord(database, local), null);
+      await database.runAsync('DELETE FROM record_outbox WHERE sync_id = ?', [change.syncId]);
+    }
+
+    await insertRecordHistory(database, local.id, 'purge', null, diffRecords(local, null));
+    await database.runAsync('DELETE FROM records WHERE id = ?', [local.id]);
+    return { applied: true, conflict: pending !== null };
+  }
+
+  const remote = change.record;
+  if (!remote || remote.syncId !== change.syncId || !isValidSyncRecord(remote)) {
+    console.warn('Skipping invalid sync change:', change.syncId);
+    return { applied: false, conflict: false };
+  }
+
+  const owner = await database.getFirstAsync<{ id: number }>(
+    'SELECT id FROM users WHERE username = ?',
+    [remote.owner],
+  );
+
+  if (!owner) {
+    return { applied: false, conflict: false }; // owner has no account here
+  }
+
+  const updatedAt = isoToSqlTimestamp(remote.updatedAt);
+  const deletedAt = remote.deletedAt ? isoToSqlTimestamp(remote.deletedAt) : null;
+  let conflict = false;
+
+  if (pending) {
+    const localWins =
+      pending.operation === 'delete' || (local !== null && local.updated_at >= updatedAt);
+
+    await insertSyncConflict(
+      database,
+      local?.user_id ?? owner.id,
+      localWins ? 'local' : 'remote',
+      local ? await toSyncRecord(database, local) : null,
+      remote,
+    );
+
+    if (localWins) {
+      return { applied: false, conflict: true }; // the outbox pushes ours
+    }
+
+    await database.runAsync('DELETE FROM record_outbox WHERE sync_id = ?', [change.syncId]);
+    conflict = true;
+  } else if (local && local.updated_at === updatedAt && local.deleted_at === deletedAt) {
+    return { applied: false, conflict: false }; // e.g. our own push coming back
+  }
+
+  if (deletedAt === null) {
+    const duplicate = await database.getFirstAsync<DatabaseRecord>(
+      `SELECT * FROM records
+       WHERE user_id = ? AND ruc = ? AND deleted_at IS NULL AND sync_id != ?`,
+      [owner.id, remote.ruc, change.syncId],
+    );
+
+    if (duplicate) {
+      const duplicateWins = duplicate.updated_at >= updatedAt;
+
+      await insertSyncConflict(
+        database,
+        owner.id,
+        duplicateWins ? 'local' : 'remote',
+        await toSyncRecord(database, duplicate),
+        remote,
+      );
+      conflict = true;
+
+      // The losing record is deleted here and on the server
+      const loser = duplicateWins ? local : duplicate;
+      if (loser) {
+        await insertRecordHistory(database, loser.id, 'purge', null, diffRecords(loser, null));
+        await queueRecordSync(database, loser.id, 'delete');
+        await database.runAsync('DELETE FROM records WHERE id = ?', [loser.id]);
+      }
+
+      if (duplicateWins) {
+        if (!local) {
+          await database.runAsync(
+            `INSERT INTO record_outbox (sync_id, operation) VALUES (?, 'delete')
+             ON CONFLICT(sync_id) DO UPDATE SET operation = 'delete', revision = revision + 1`,
+            [change.syncId],
+          );
+        }
+        return { applied: false, conflict };
+      }
+    }
+  }
+
+  const values = [
+    owner.id,
+    remote.ruc,
+    remote.clientName,
+    normalizeSearchText(remote.clientName),
+    remote.address,
+    remote.district,
+    remote.province,
+    remote.department,
+    remote.phone,
+    remote.email,
+    remote.notes,
+    remote.status,
+    isoToSqlTimestamp(remote.createdAt),
+    updatedAt,
+    deletedAt,
+  ];
+
+  if (local) {
+    await database.runAsync(
+      `UPDATE records SET
+         user_id = ?, ruc = ?, client_name = ?, search_name = ?, address = ?,
+         district = ?, province = ?, department = ?, phone = ?, email = ?,
+         notes = ?, status = ?, created_at = ?, updated_at = ?, deleted_at = ?
+       WHERE id = ?`,
+      [...values, local.id],
+    );
+  } else {
+    await database.runAsync(
+      `INSERT INTO records (
+         user_id, ruc, client_name, search_name, address, district, province,
+         department, phone, email, notes, status, created_at, updated_at,
+         deleted_at, sync_id
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...values, change.syncId],
+    );
+  }
+
+  const record = await database.getFirstAsync<DatabaseRecord>(
+    'SELECT * FROM records WHERE sync_id = ?',
+    [change.syncId],
+  );
+
+  if (record) {
+    let action: RecordHistoryAction = 'update';
+    if (!local) {
+      action = 'create';
+    } else if (local.deleted_at === null && deletedAt !== null) {
+      action = 'delete';
+    } else if (local.deleted_at !== null && deletedAt === null) {
+      action = 'restore';
+    }
+
+    await insertRecordHistory(database, record.id, action, null, diffRecords(local, record));
+  }
+
+  return { applied: true, conflict };
+}
+
+async function insertSyncConflict(
+  database: SQLite.SQLiteDatabase,
+  userId: number,
+  winner: SyncConflictWinner,
+  local: SyncRecord | null,
+  remote: SyncRecord | null,
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO sync_conflicts (sync_id, user_id, winner, local, remote)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      (remote ?? local)?.syncId ?? '',
+      userId,
+      winner,
+      local ? JSON.stringify(local) : null,
+      remote ? JSON.stringify(remote) : null,
+    ],
+  );
+}
+
+async function toSyncRecord(
+  database: SQLite.SQLiteDatabase,
+  record: DatabaseRecord,
+): Promise<SyncRecord> {
+  const owner = await database.getFirstAsync<{ username: string }>(
+    'SELECT username FROM users WHERE id = ?',
+    [record.user_id],
+  );
+  return mapDatabaseRecordToSyncRecord(record, owner?.username ?? '');
+}
+
+/**
+ * Server data is untrusted: check the fields a record can't do without
+ */
+function isValidSyncRecord(record: SyncRecord): boolean {
+  const isText = (value: unknown) => typeof value === 'string';
+  const isDate = (value: unknown) => isText(value) && !Number.isNaN(Date.parse(value as string));
+
+  return (
+    isText(record.owner) &&
+    isText(record.ruc) &&
+    isText(record.clientName) &&
+    isDate(record.createdAt) &&
+    isDate(record.updatedAt) &&
+    (record.deletedAt === null || isDate(record.deletedAt)) &&
+    ['address', 'district', 'province', 'department', 'phone', 'email', 'notes'].every(
+      (field) => isText(record[field as keyof SyncRecord]),
+    ) &&
+    record.status in RECORD_STATUS_LABELS
+  );
+}
+
+/**
+ * 'YYYY-MM-DD HH:MM:SS' (UTC, as written by CURRENT_TIMESTAMP) to ISO 8601
+ */
+function sqlTimestampToIso(value: string): string {
+  return `${value.replace(' ', 'T')}Z`;
+}
+
+function isoToSqlTimestamp(value: string): string {
+  return new Date(value).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Delay before retrying a push that failed `attempts` times
+ */
+function computeSyncRetryDelay(attempts: number): number {
+  return Math.min(SYNC_BASE_DELAY_MS * 2 ** (attempts - 1), SYNC_MAX_DELAY_MS);
+}
+
+/**
+ * Whether the user is the only remaining active admin
+ */
+async function isLastActiveAdmin(
+  database: SQLite.SQLiteDatabase,
+  userId: number,
+): Promise<boolean> {
+  const result = await database.getFirstAsync<{
+    is_admin: number;
+    other_admins: number;
+  }>(
+    `SELECT
+       EXISTS(SELECT 1 FROM users WHERE id = ? AND role = 'admin' AND is_active = 1) AS is_admin,
+       (SELECT COUNT(*) FROM users WHERE id != ? AND role = 'admin' AND is_active = 1) AS other_admins`,
+    [userId, userId],
+  );
+
+  return !!result?.is_admin && result.other_admins === 0;
+}
+
+/**
+ * Map database user to user (without the password hash)
+ */
+function mapDatabaseUserToUser(user: DatabaseUser): User {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    isActive: user.is_active === 1,
+    lastLoginAt: user.last_login_at,
+    createdAt: user.created_at,
+  };
+}
+
+/**
+ * Map database record to client record
+ */
+function mapDatabaseRecordToClientRecord(record: DatabaseRecord): ClientRecord {
+  return {
+    id: record.id,
+    userId: record.user_id,
+    ruc: record.ruc,
+    clientName: record.client_name,
+    address: record.address,
+    district: record.district,
+    province: record.province,
+    department: record.department,
+    phone: record.phone,
+    email: record.email,
+    notes: record.notes,
+    status: record.status,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    deletedAt: record.deleted_at,
+  };
+}
+
+/**
+ * Map a database record to the shape exchanged with the sync server
+ */
+function mapDatabaseRecordToSyncRecord(
+  record: DatabaseRecord,
+  owner: string,
+): SyncRecord {
+  return {
+    syncId: record.sync_id,
+    owner,
+    ruc: record.ruc,
+    clientName: record.client_name,
+    address: record.address,
+    district: record.district,
+    province: record.province,
+    department: record.department,
+    phone: record.phone,
+    email: record.email,
+    notes: record.notes,
+    status: record.status,
+    createdAt: sqlTimestampToIso(record.created_at),
+    updatedAt: sqlTimestampToIso(record.updated_at),
+    deletedAt: record.deleted_at ? sqlTimestampToIso(record.deleted_at) : null,
+  };
+}
+
+/**
+ * Map a sync_conflicts row to a conflict
+ */
+function mapDatabaseConflictToSyncConflict(
+  row: DatabaseSyncConflict,
+): SyncConflict {
+  const parse = (value: string | null): SyncRecord | null => {
+    try {
+      return value ? (JSON.parse(value) as SyncRecord) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    id: row.id,
+    syncId: row.sync_id,
+    winner: row.winner,
+    local: parse(row.local),
+    remote: parse(row.remote),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Map a record_history row to a history entry
+ */
+function mapDatabaseHistoryToEntry(
+  row: DatabaseRecordHistory,
+): RecordHistoryEntry {
+  let changes: RecordChanges = {};
+  try {
+    changes = JSON.parse(row.changes) as RecordChanges;
+  } catch {
+    // Keep the entry even if its change set is unreadable
+  }
+
+  return {
+    id: row.id,
+    recordId: row.record_id,
+    action: row.action,
+    actorId: row.actor_id,
+    actorUsername: row.actor_username,
+    changes,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Check a logged-in user's password under the same throttle as login, so
+ * an unlocked device can't be used to guess it through the profile screen
+ */
+async function verifyOwnPassword(
+  user: DatabaseUser,
+  password: string,
+): Promise<boolean> {
+  const throttle = await getLoginThrottle(user.username);
+
+  if (throttle.retryAt) {
+    throw new TooManyAttemptsError(throttle.retryAt);
+  }
+
+  if (!(await verifyPassword(password, user.password_hash))) {
+    await recordFailedLogin(user.username);
+    return false;
+  }
+
+  await resetLoginAttempts(user.username);
+  return true;
+}
+
+/**
+ * Derive the throttle state from a login_attempts row.
+ * After LOGIN_FREE_ATTEMPTS failures each retry waits exponentially longer;
+ * at LOGIN_LOCKOUT_ATTEMPTS the username is locked for a fixed window.
+ */
+function computeLoginThrottle(
+  attempt: DatabaseLoginAttempt | null,
+  now: number,
+): LoginThrottle {
+  if (!attempt) {
+    return { failedCount: 0, retryAt: null, isLockedOut: false };
+  }
+
+  if (attempt.locked_until != null && attempt.locked_until > now) {
+    return {
+      failedCount: attempt.failed_count,
+      retryAt: attempt.locked_until,
+      isLockedOut: true,
+    };
+  }
+
+  if (
+    attempt.failed_count >= LOGIN_FREE_ATTEMPTS &&
+    attempt.last_failed_at != null
+  ) {
+    const delay = Math.min(
+      LOGIN_BASE_DELAY_MS *
+        2 ** (attempt.failed_count - LOGIN_FREE_ATTEMPTS),
+      LOGIN_MAX_DELAY_MS,
+    );
+    const retryAt = attempt.last_failed_at + delay;
+
+    if (retryAt > now) {
+      return { failedCount: attempt.failed_count, retryAt, isLockedOut: false };
+    }
+  }
+
+  return {
+    failedCount: attempt.failed_count,
+    retryAt: null,
+    isLockedOut: false,
+  };
+}
+
+/**
+ * Run work on the database file with the shared connection closed.
+ * Queued transactions finish first, and getDatabase holds every caller
+ * (e.g. the background sync) until the work is done, so nothing reopens
+ * the file while it is being replaced. `work` must not call getDatabase.
+ */
+export function withDatabaseClosed<T>(work: () => Promise<T>): Promise<T> {
+  const run = (maintenance ?? Promise.resolve()).then(async () => {
+    await transactionQueue;
+    await closeDatabase();
+    return work();
+  });
+
+  const done = run.then(
+    () => undefined,
+    () => undefined,
+  );
+  maintenance = done;
+  done.then(() => {
+    if (maintenance === done) {
+      maintenance = null;
+    }
+  });
+
+  return run;
+}
+
+/**
+ * Close the database connection
+ */
+export async function closeDatabase(): Promise<void> {
+  // Let an open in progress finish so its connection is closed too
+  await opening?.catch(() => null);
+
   if (db) {
     await db.closeAsync();
     db = null;
@@ -0,0 +1,216 @@
+import * as Crypto from 'expo-crypto';
+import { File, Paths } from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import * as SQLite from 'expo-sqlite';
+import {
+  DATABASE_KEY_LENGTH,
+  DATABASE_NAME,
+  ENCRYPTED_DATABASE_NAME,
+} from '../utils/constants';
+import { toHex } from '../utils/crypto';
+
+const DATABASE_KEY_STORE_KEY = 'database_key';
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown when the encrypted database exists but the key in secure storage
+ * is missing or doesn't open it, e.g. after restoring the app's files on
+ * another device. The data can't be recovered without the original key.
+ */
+export class DatabaseKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseKeyError';
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function databaseFile(name: string): File {
+  // Same location as SQLite.defaultDatabaseDirectory
+  return new File(Paths.document, 'SQLite', name);
+}
+
+/**
+ * Whether expo-sqlite was built with SQLCipher (not the case in Expo Go
+ * or on web)
+ */
+async function isSQLCipherAvailable(): Promise<boolean> {
+  const probe = await SQLite.openDatabaseAsync(':memory:');
+  try {
+    const row = await probe.getFirstAsync<{ cipher_version: string }>('PRAGMA cipher_version');
+    return Boolean(row?.cipher_version);
+  } finally {
+    await probe.closeAsync();
+  }
+}
+
+async function readStoredKey(): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(DATABASE_KEY_STORE_KEY);
+  } catch (error) {
+    // Android throws when the keystore entry behind the value is gone
+    console.warn('Could not read database key:', error);
+    return null;
+  }
+}
+
+/**
+ * Raw key literal: SQLCipher uses the bytes as is instead of deriving a
+ * key from a passphrase
+ */
+function keyLiteral(key: string): string {
+  return `"x'${key}'"`;
+}
+
+/**
+ * Copy the plaintext database into a new encrypted file.
+ * sqlcipher_export copies schema and data but not user_version.
+ */
+async function encryptPlaintextDatabase(key: string): Promise<void> {
+  const target = databaseFile(ENCRYPTED_DATABASE_NAME);
+  if (target.exists) {
+    target.delete(); // left over from an interrupted migration
+  }
+
+  const plaintext = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  try {
+    const version = await plaintext.getFirstAsync<{ user_version: number }>(
+      'PRAGMA user_version',
+    );
+    const path = `${SQLite.defaultDatabaseDirectory}/${ENCRYPTED_DATABASE_NAME}`;
+
+    await plaintext.execAsync(`
+      ATTACH DATABASE '${path.replace(/'/g, "''")}' AS encrypted KEY ${keyLiteral(key)};
+      SELECT sqlcipher_export('encrypted');
+      PRAGMA encrypted.user_version = ${version?.user_version ?? 0};
+      DETACH DATABASE encrypted;
+    `);
+  } finally {
+    await plaintext.closeAsync();
+  }
+
+  console.log('Plaintext database migrated to encrypted storage');
+}
+
+// ============================================
+// Encrypted Database
+// ============================================
+
+/**
+ * Open the app database, encrypted with a key kept in secure storage.
+ *
+ * The key is generated on first run. A plaintext database from an earlier
+ * version is copied into the encrypted file before the key is saved, so
+ * saving the key is what commits the migration: if the app stops before
+ * that, the next start simply migrates again.
+ *
+ * Throws DatabaseKeyError when the encrypted database can't be opened.
+ */
+export async function openEncryptedDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!(await isSQLCipherAvailable())) {
+    console.warn('SQLCipher is not available; the database is stored unencrypted');
+    return SQLite.openDatabaseAsync(DATABASE_NAME);
+  }
+
+  const plaintextExists = databaseFile(DATABASE_NAME).exists;
+  const encryptedExists = databaseFile(ENCRYPTED_DATABASE_NAME).exists;
+  let key = await readStoredKey();
+
+  if (!key && encryptedExists && !plaintextExists) {
+    throw new DatabaseKeyError('The database key is missing from secure storage');
+  }
+
+  if (!key) {
+    key = toHex(await Crypto.getRandomBytesAsync(DATABASE_KEY_LENGTH));
+    if (plaintextExists) {
+      await encryptPlaintextDatabase(key);
+    }
+    await SecureStore.setItemAsync(DATABASE_KEY_STORE_KEY, key);
+  } else if (plaintextExists && !encryptedExists) {
+    // The key outlived a previous install (iOS keychain)
+    await encryptPlaintextDatabase(key);
+  }
+
+  if (plaintextExists) {
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  }
+
+  const database = await SQLite.openDatabaseAsync(ENCRYPTED_DATABASE_NAME);
+  try {
+    await database.execAsync(`PRAGMA key = ${keyLiteral(key)}`);
+    // Reading the schema fails with "file is not a database" on a wrong key
+    await database.getFirstAsync('SELECT count(*) FROM sqlite_master');
+  } catch (error) {
+    await database.closeAsync();
+    console.error('Error opening encrypted database:', error);
+    throw new DatabaseKeyError('The database key does not match the database');
+  }
+
+  return database;
+}
+
+/**
+ * Name of the file openEncryptedDatabase uses on this build
+ */
+export async function getDatabaseFileName(): Promise<string> {
+  return (await isSQLCipherAvailable()) ? ENCRYPTED_DATABASE_NAME : DATABASE_NAME;
+}
+
+/**
+ * Size in bytes of the app database file (0 if missing)
+ */
+export async function getDatabaseFileSize(): Promise<number> {
+  return databaseFile(await getDatabaseFileName()).size;
+}
+
+/**
+ * Open (or create) another database file with the app database's key,
+ * e.g. to rebuild it. Plain open when SQLCipher is not available.
+ */
+export async function openDatabaseFileWithKey(name: string): Promise<SQLite.SQLiteDatabase> {
+  if (!(await isSQLCipherAvailable())) {
+    return SQLite.openDatabaseAsync(name);
+  }
+
+  const key = await readStoredKey();
+  if (!key) {
+    throw new DatabaseKeyError('The database key is missing from secure storage');
+  }
+
+  const database = await SQLite.openDatabaseAsync(name);
+  await database.execAsync(`PRAGMA key = ${keyLiteral(key)}`);
+  return database;
+}
+
+/**
+ * Move a database file over the app database, replacing it. Neither may
+ * be open.
+ */
+export async function replaceDatabaseFile(source: string): Promise<void> {
+  const name = await getDatabaseFileName();
+
+  if (databaseFile(name).exists) {
+    await SQLite.deleteDatabaseAsync(name);
+  }
+  databaseFile(source).move(databaseFile(name));
+}
+
+/**
+ * Delete the database and its key so the app starts empty.
+ * Only meant for when DatabaseKeyError or a damaged file makes the data
+ * unrecoverable; the database must not be open.
+ */
+export async function deleteEncryptedDatabase(): Promise<void> {
+  for (const name of [ENCRYPTED_DATABASE_NAME, DATABASE_NAME]) {
+    if (databaseFile(name).exists) {
+      await SQLite.deleteDatabaseAsync(name);
+    }
+  }
+  await SecureStore.deleteItemAsync(DATABASE_KEY_STORE_KEY);
+}
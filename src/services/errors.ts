@@ -0,0 +1,147 @@
+import type { ClientRecord } from '../types';
+
+// ============================================
+// Errors
+// ============================================
+//
+// Failures of the data services, so screens can tell them apart instead of
+// showing one generic alert. Errors specific to a single feature (backup
+// files, the database key) live in that feature's service.
+
+export type NotFoundEntity = 'record' | 'user';
+
+/**
+ * Thrown when the record or user to change doesn't exist or isn't
+ * visible to the current user (another owner, or in the trash)
+ */
+export class NotFoundError extends Error {
+  constructor(
+    public readonly entity: NotFoundEntity,
+    public readonly id: number,
+  ) {
+    super(`${entity} #${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when a change clashes with data that already exists
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Thrown when saving a record whose RUC the owner already registered
+ */
+export class DuplicateRecordError extends ConflictError {
+  constructor(public readonly existing: ClientRecord) {
+    super(`Record #${existing.id} already uses RUC ${existing.ruc}`);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+/**
+ * Thrown when creating an account with a username that is taken
+ */
+export class DuplicateUsernameError extends ConflictError {
+  constructor(public readonly username: string) {
+    super(`Username ${username} is taken`);
+    this.name = 'DuplicateUsernameError';
+  }
+}
+
+/**
+ * Thrown when a password check is refused because of repeated failures.
+ * `retryAt` is when the next attempt will be accepted.
+ */
+export class TooManyAttemptsError extends Error {
+  constructor(public readonly retryAt: number) {
+    super(`Password checks throttled until ${new Date(retryAt).toISOString()}`);
+    this.name = 'TooManyAttemptsError';
+  }
+}
+
+/**
+ * Thrown when a service receives data the screens should have rejected.
+ * `message` is the validator's Spanish message for the field.
+ */
+export class ValidationError extends Error {
+  constructor(
+    public readonly field: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when SQLite fails (disk full, locked or corrupt database, ...).
+ * The transaction was rolled back, so nothing was saved.
+ */
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Thrown when opening the database finds it damaged, either by the
+ * integrity check or by SQLite failing to read it. The app can't start on
+ * it; recovery.service can salvage the readable rows.
+ */
+export class DatabaseCorruptError extends StorageError {
+  constructor(public readonly problems: string[]) {
+    super(`Database is corrupt: ${problems[0] ?? 'unknown problem'}`);
+    this.name = 'DatabaseCorruptError';
+  }
+}
+
+// ============================================
+// Messages
+// ============================================
+
+const NOT_FOUND_MESSAGES: Record<NotFoundEntity, string> = {
+  record: 'El registro ya no existe. Puede haber sido eliminado.',
+  user: 'La cuenta ya no existe.',
+};
+
+/**
+ * Spanish message for an error thrown by the data services, or the
+ * fallback for anything else
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof NotFoundError) {
+    return NOT_FOUND_MESSAGES[error.entity];
+  }
+  if (error instanceof DuplicateRecordError) {
+    return `Ya existe un registro con el RUC ${error.existing.ruc} (#${error.existing.id}).`;
+  }
+  if (error instanceof DuplicateUsernameError) {
+    return 'El nombre de usuario ya está en uso. Por favor, elige otro.';
+  }
+  if (error instanceof ConflictError) {
+    return 'Los datos cambiaron mientras se guardaban. Intente nuevamente.';
+  }
+  if (error instanceof TooManyAttemptsError) {
+    return 'Demasiados intentos fallidos. Espera unos minutos antes de volver a intentarlo.';
+  }
+  if (error instanceof ValidationError) {
+    return error.message;
+  }
+  if (error instanceof DatabaseCorruptError) {
+    return 'La base de datos del dispositivo está dañada.';
+  }
+  if (error instanceof StorageError) {
+    return 'No se pudo guardar en el almacenamiento del dispositivo. Verifique que haya espacio disponible e intente nuevamente.';
+  }
+  return fallback;
+}
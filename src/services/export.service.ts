@@ -0,0 +1,159 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { ClientRecord, ExportFormat, RecordFilters } from '../types';
+import { EXPORT_SCHEMA_VERSION, RECORD_STATUS_LABELS } from '../utils/constants';
+import { getAllRecords } from './database.service';
+
+// ============================================
+// Column Layout
+// ============================================
+
+interface CsvColumn {
+  header: string;
+  value: (record: ClientRecord) => string | number;
+}
+
+/**
+ * CSV columns in output order. Headers are in Spanish since the file is
+ * meant to be opened in a spreadsheet.
+ */
+export const RECORD_CSV_COLUMNS: CsvColumn[] = [
+  { header: 'ID', value: (r) => r.id },
+  { header: 'RUC', value: (r) => r.ruc },
+  { header: 'Cliente', value: (r) => r.clientName },
+  { header: 'Dirección fiscal', value: (r) => r.address },
+  { header: 'Distrito', value: (r) => r.district },
+  { header: 'Provincia', value: (r) => r.province },
+  { header: 'Departamento', value: (r) => r.department },
+  { header: 'Teléfono', value: (r) => r.phone },
+  { header: 'Correo', value: (r) => r.email },
+  { header: 'Notas', value: (r) => r.notes },
+  { header: 'Estado', value: (r) => RECORD_STATUS_LABELS[r.status] },
+  { header: 'Fecha de registro', value: (r) => r.createdAt },
+  { header: 'Última edición', value: (r) => r.updatedAt },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const UTIS: Record<ExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  json: 'public.json',
+};
+
+// Excel only detects UTF-8 (accents, ñ) when the file starts with a BOM
+const UTF8_BOM = '\uFEFF';
+
+// ============================================
+// Serialisation
+// ============================================
+
+/**
+ * Quote a CSV field per RFC 4180 and neutralise spreadsheet formulas
+ */
+function escapeCsvField(value: string | number): string {
+  let text = String(value);
+
+  // A leading =, +, -, @, tab or CR makes spreadsheets evaluate the cell.
+  // Only a plain number (e.g. "-12.5", "+51987654321") is kept as is;
+  // anything else, spaced phone numbers included, gets the quote prefix.
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Serialise records to CSV with a header row, CRLF line endings and a
+ * UTF-8 BOM
+ */
+export function recordsToCsv(records: ClientRecord[]): string {
+  const lines = [
+    RECORD_CSV_COLUMNS.map((column) => escapeCsvField(column.header)).join(','),
+    ...records.map((record) =>
+      RECORD_CSV_COLUMNS.map((column) => escapeCsvField(column.value(record))).join(','),
+    ),
+  ];
+
+  return UTF8_BOM + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialise records to JSON wrapped with the schema version
+ */
+export function recordsToJson(records: ClientRecord[]): string {
+  return JSON.stringify(
+    {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: records.length,
+      records: records.map((record) => ({
+        id: record.id,
+        ruc: record.ruc,
+        clientName: record.clientName,
+        address: record.address,
+        district: record.district,
+        province: record.province,
+        department: record.department,
+        phone: record.phone,
+        email: record.email,
+        notes: record.notes,
+        status: record.status,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+// ============================================
+// Export
+// ============================================
+
+function buildFileName(format: ExportFormat): string {
+  const stamp = new Date()
+    .toISOString()
+    .slice(0, 16)
+    .replace(/[-:]/g, '')
+    .replace('T', '-');
+  return `registros-${stamp}.${format}`;
+}
+
+/**
+ * Write the user's records (every owner's for null), optionally filtered,
+ * to a file in the cache directory and open the OS share sheet for it.
+ * Returns the number of exported records.
+ */
+export async function exportRecords(
+  userId: number | null,
+  format: ExportFormat,
+  filters: RecordFilters = {},
+): Promise<number> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const records = await getAllRecords(userId, filters);
+  const content = format === 'csv' ? recordsToCsv(records) : recordsToJson(records);
+
+  const file = new File(Paths.cache, buildFileName(format));
+  file.create({ overwrite: true });
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: MIME_TYPES[format],
+    UTI: UTIS[format],
+    dialogTitle: 'Exportar registros',
+  });
+
+  return records.length;
+}
@@ -0,0 +1,133 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import type { ImportColumnMapping, ImportFile, ImportRow } from '../types';
+import { parseCsv } from '../utils/csv';
+import { normalizeSearchText } from '../utils/text';
+import { getClientNameError, getRUCError, normalizeRUC } from '../utils/validators';
+import { getAllRecords } from './database.service';
+
+// Header names recognised for each field, already normalised
+const HEADER_ALIASES: Record<keyof ImportColumnMapping, string[]> = {
+  ruc: ['ruc', 'nro ruc', 'numero ruc', 'numero de ruc'],
+  clientName: ['cliente', 'nombre', 'razon social', 'nombre del cliente', 'client', 'name'],
+};
+
+// Some apps export CSV with a generic MIME type, so accept plain text too
+const CSV_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'];
+
+// ============================================
+// File Selection
+// ============================================
+
+/**
+ * Let the user pick a CSV file and parse it.
+ * Returns null if the picker was cancelled.
+ */
+export async function pickImportFile(): Promise<ImportFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: CSV_MIME_TYPES,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const text = await new File(asset.uri).text();
+
+  return { name: asset.name, rows: parseCsv(text) };
+}
+
+// ============================================
+// Column Mapping
+// ============================================
+
+/**
+ * Whether the first row holds column names rather than data.
+ * A data row always has a cell that looks like a RUC.
+ */
+export function hasHeaderRow(rows: string[][]): boolean {
+  if (rows.length === 0) {
+    return false;
+  }
+  return !rows[0].some((cell) => /^\d{11}$/.test(normalizeRUC(cell)));
+}
+
+/**
+ * Guess which column holds each field from the header names, falling back
+ * to the first two columns
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeSearchText);
+  const find = (field: keyof ImportColumnMapping) =>
+    normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+
+  const ruc = find('ruc');
+  const clientName = find('clientName');
+
+  return {
+    ruc: ruc >= 0 ? ruc : 0,
+    clientName: clientName >= 0 ? clientName : Math.min(1, headers.length - 1),
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Map of RUC to record ID for the user's live records
+ */
+export async function getExistingRucs(userId: number): Promise<Map<string, number>> {
+  const records = await getAllRecords(userId);
+  return new Map(records.map((record) => [record.ruc, record.id]));
+}
+
+/**
+ * Validate each data row with the same rules as the register form and
+ * flag RUCs that are already registered or repeated within the file.
+ *
+ * @param rows - Data rows, without the header
+ * @param firstLine - Line number of the first data row in the file
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  firstLine: number,
+  existingRucs: Map<string, number>,
+): ImportRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = firstLine + index;
+    const ruc = normalizeRUC(cells[mapping.ruc] ?? '');
+    const clientName = (cells[mapping.clientName] ?? '').trim();
+
+    const errors: string[] = [];
+    const rucError = getRUCError(ruc);
+    const nameError = getClientNameError(clientName);
+
+    if (rucError) {
+      errors.push(rucError);
+    }
+    if (nameError) {
+      errors.push(nameError);
+    }
+
+    const firstSeen = seen.get(ruc);
+    if (!rucError && firstSeen !== undefined) {
+      errors.push(`RUC repetido en la línea ${firstSeen}`);
+    } else if (!rucError) {
+      seen.set(ruc, line);
+    }
+
+    return {
+      line,
+      ruc,
+      clientName,
+      errors,
+      duplicateOfId: existingRucs.get(ruc) ?? null,
+    };
+  });
+}
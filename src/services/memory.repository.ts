@@ -0,0 +1,167 @@
+import type {
+  ClientRecord,
+  RecordRepository,
+  User,
+  UserRepository,
+} from '../types';
+import { DEFAULT_USER_ROLE } from '../utils/constants';
+import { DuplicateRecordError, DuplicateUsernameError, NotFoundError } from './errors';
+import { hashPassword, needsRehash, verifyPassword } from './password.service';
+import { assertValidRecordInput, resolveRecordDetails } from './record-input';
+
+// ============================================
+// In-Memory Repositories
+// ============================================
+//
+// Plain-object implementations of the repository interfaces, for running
+// code that depends on them without a device or SQLite. They follow the
+// same ownership, trash and duplicate-RUC rules as the SQLite versions but
+// keep no change history and queue nothing for sync.
+
+// Same format as SQLite's CURRENT_TIMESTAMP
+function now(): string {
+  return new Date().toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Create an empty user repository. Accounts can be pre-seeded with
+ * create() like on a real database.
+ */
+export function createMemoryUserRepository(): UserRepository {
+  const users = new Map<number, { user: User; passwordHash: string }>();
+  let nextId = 1;
+
+  const findByUsername = (username: string) =>
+    [...users.values()].find((entry) => entry.user.username === username);
+
+  return {
+    async verifyCredentials(username, password) {
+      const entry = findByUsername(username);
+
+      if (!entry || !entry.user.isActive) {
+        return null;
+      }
+
+      if (!(await verifyPassword(password, entry.passwordHash))) {
+        return null;
+      }
+
+      if (needsRehash(entry.passwordHash)) {
+        entry.passwordHash = await hashPassword(password);
+      }
+
+      entry.user = { ...entry.user, lastLoginAt: now() };
+      return { ...entry.user };
+    },
+
+    async getById(id) {
+      const entry = users.get(id);
+      return entry ? { ...entry.user } : null;
+    },
+
+    async create(username, password, role = DEFAULT_USER_ROLE) {
+      if (findByUsername(username)) {
+        throw new DuplicateUsernameError(username);
+      }
+
+      const user: User = {
+        id: nextId++,
+        username,
+        role,
+        isActive: true,
+        lastLoginAt: null,
+        createdAt: now(),
+      };
+
+      users.set(user.id, { user, passwordHash: await hashPassword(password) });
+      return { ...user };
+    },
+  };
+}
+
+/**
+ * Create an empty record repository
+ */
+export function createMemoryRecordRepository(): RecordRepository {
+  const records = new Map<number, ClientRecord>();
+  let nextId = 1;
+
+  const findLive = (predicate: (record: ClientRecord) => boolean) =>
+    [...records.values()].find((record) => record.deletedAt === null && predicate(record));
+
+  const repository: RecordRepository = {
+    async create(input) {
+      assertValidRecordInput(input);
+
+      const existing = await repository.findByRuc(input.userId, input.ruc);
+      if (existing) {
+        throw new DuplicateRecordError(existing);
+      }
+
+      const timestamp = now();
+      const record: ClientRecord = {
+        ...resolveRecordDetails(input, null),
+        id: nextId++,
+        userId: input.userId,
+        ruc: input.ruc,
+        clientName: input.clientName,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        deletedAt: null,
+      };
+
+      records.set(record.id, record);
+      return { ...record };
+    },
+
+    async update(input) {
+      assertValidRecordInput(input);
+
+      const existing = await repository.findByRuc(input.userId, input.ruc);
+      if (existing && existing.id !== input.id) {
+        throw new DuplicateRecordError(existing);
+      }
+
+      const current = findLive(
+        (record) => record.id === input.id && record.userId === input.userId,
+      );
+      if (!current) {
+        throw new NotFoundError('record', input.id);
+      }
+
+      const record: ClientRecord = {
+        ...current,
+        ...resolveRecordDetails(input, current),
+        ruc: input.ruc,
+        clientName: input.clientName,
+        updatedAt: now(),
+      };
+
+      records.set(record.id, record);
+      return { ...record };
+    },
+
+    async delete(id, userId) {
+      const current = findLive((record) => record.id === id && record.userId === userId);
+      if (!current) {
+        return false;
+      }
+
+      const timestamp = now();
+      records.set(id, { ...current, deletedAt: timestamp, updatedAt: timestamp });
+      return true;
+    },
+
+    async getById(id, userId) {
+      const record = findLive((r) => r.id === id && r.userId === userId);
+      return record ? { ...record } : null;
+    },
+
+    async findByRuc(userId, ruc) {
+      const record = findLive((r) => r.userId === userId && r.ruc === ruc);
+      return record ? { ...record } : null;
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,397 @@
+import type * as SQLite from 'expo-sqlite';
+import { normalizeSearchText } from '../utils/text';
+
+// ============================================
+// Migration Types
+// ============================================
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Thrown when the database on disk was written by a newer app version
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly supportedVersion: number,
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than supported version ${supportedVersion}`,
+    );
+    this.name = 'UnsupportedSchemaVersionError';
+  }
+}
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * Ordered list of schema migrations.
+ * Never edit a migration that has shipped; append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create users and records tables',
+    up: async (database) => {
+      // IF NOT EXISTS keeps this safe for databases created before versioning
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          ruc TEXT NOT NULL,
+          client_name TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add owner (user_id) to records',
+    up: async (database) => {
+      await database.execAsync(`
+        ALTER TABLE records ADD COLUMN user_id INTEGER REFERENCES users(id);
+
+        CREATE INDEX IF NOT EXISTS idx_records_user_id ON records(user_id);
+      `);
+
+      // Existing rows were created before ownership existed: hand them to
+      // the seeded admin account, or the oldest account if it was removed
+      await database.execAsync(`
+        UPDATE records
+        SET user_id = COALESCE(
+          (SELECT id FROM users WHERE username = 'admin'),
+          (SELECT MIN(id) FROM users)
+        )
+        WHERE user_id IS NULL;
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Track failed login attempts per username',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS login_attempts (
+          username TEXT PRIMARY KEY NOT NULL,
+          failed_count INTEGER NOT NULL DEFAULT 0,
+          last_failed_at INTEGER,
+          locked_until INTEGER
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add user roles and app settings',
+    up: async (database) => {
+      await database.execAsync(`
+        ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'operator'
+          CHECK (role IN ('admin', 'operator', 'readonly'));
+
+        UPDATE users SET role = 'admin' WHERE username = 'admin';
+
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Track account status and last login',
+    up: async (database) => {
+      await database.execAsync(`
+        ALTER TABLE users ADD COLUMN is_active INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE users ADD COLUMN last_login_at DATETIME;
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add normalized search column and record indexes',
+    up: async (database) => {
+      await database.execAsync(`
+        ALTER TABLE records ADD COLUMN search_name TEXT NOT NULL DEFAULT '';
+
+        CREATE INDEX IF NOT EXISTS idx_records_user_ruc ON records(user_id, ruc);
+        CREATE INDEX IF NOT EXISTS idx_records_user_search_name ON records(user_id, search_name);
+        CREATE INDEX IF NOT EXISTS idx_records_user_created ON records(user_id, created_at);
+      `);
+
+      // Accent stripping has no SQL equivalent, so backfill from JS
+      const rows = await database.getAllAsync<{
+        id: number;
+        client_name: string;
+      }>('SELECT id, client_name FROM records');
+
+      for (const row of rows) {
+        await database.runAsync(
+          'UPDATE records SET search_name = ? WHERE id = ?',
+          [normalizeSearchText(row.client_name), row.id],
+        );
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Merge duplicate RUCs and make RUC unique per owner',
+    up: async (database) => {
+      await mergeDuplicateRecords(database);
+
+      await database.execAsync(`
+        DROP INDEX IF EXISTS idx_records_user_ruc;
+        CREATE UNIQUE INDEX idx_records_user_ruc ON records(user_id, ruc);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add soft delete to records',
+    up: async (database) => {
+      // Trashed records keep their RUC, so uniqueness only covers live rows
+      await database.execAsync(`
+        ALTER TABLE records ADD COLUMN deleted_at DATETIME;
+
+        DROP INDEX IF EXISTS idx_records_user_ruc;
+        CREATE UNIQUE INDEX idx_records_user_ruc ON records(user_id, ruc) WHERE deleted_at IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_records_user_deleted ON records(user_id, deleted_at);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Create record_history audit table',
+    up: async (database) => {
+      // No foreign keys: entries outlive purged records and deleted users
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS record_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          record_id INTEGER NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+          actor_id INTEGER,
+          actor_username TEXT,
+          changes TEXT NOT NULL DEFAULT '{}',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_record_history_record ON record_history(record_id, id);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Add address, contact, notes and status to records',
+    up: async (database) => {
+      await database.execAsync(`
+        ALTER TABLE records ADD COLUMN address TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN district TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN province TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN department TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN phone TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN email TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN notes TEXT NOT NULL DEFAULT '';
+        ALTER TABLE records ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+          CHECK (status IN ('prospect', 'active', 'inactive'));
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add sync IDs, the sync outbox and the sync conflict log',
+    up: async (database) => {
+      // ADD COLUMN can't take a non-constant default, so backfill instead
+      await database.execAsync(`
+        ALTER TABLE records ADD COLUMN sync_id TEXT;
+
+        UPDATE records SET sync_id = lower(hex(randomblob(16))) WHERE sync_id IS NULL;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_records_sync_id ON records(sync_id);
+
+        CREATE TABLE IF NOT EXISTS record_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sync_id TEXT NOT NULL UNIQUE,
+          operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')),
+          revision INTEGER NOT NULL DEFAULT 1,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sync_id TEXT NOT NULL,
+          user_id INTEGER,
+          winner TEXT NOT NULL CHECK (winner IN ('local', 'remote')),
+          local TEXT,
+          remote TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          resolved_at DATETIME
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user
+          ON sync_conflicts(user_id, resolved_at);
+      `);
+
+      // Records written before sync existed are pushed on the first sync
+      await database.execAsync(`
+        INSERT INTO record_outbox (sync_id, operation)
+        SELECT sync_id, 'upsert' FROM records;
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: 'Index client names for substring search',
+    up: async (database) => {
+      // An infix LIKE can't use a B-tree index; the trigram tokenizer
+      // answers substring matches of 3+ characters from the FTS index.
+      // External content: the table indexes records.search_name without
+      // storing a copy, and the triggers keep it in step.
+      await database.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS records_search USING fts5(
+          search_name,
+          content = 'records',
+          content_rowid = 'id',
+          tokenize = 'trigram'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS records_search_insert AFTER INSERT ON records BEGIN
+          INSERT INTO records_search (rowid, search_name) VALUES (new.id, new.search_name);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS records_search_delete AFTER DELETE ON records BEGIN
+          INSERT INTO records_search (records_search, rowid, search_name)
+          VALUES ('delete', old.id, old.search_name);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS records_search_update AFTER UPDATE OF search_name ON records BEGIN
+          INSERT INTO records_search (records_search, rowid, search_name)
+          VALUES ('delete', old.id, old.search_name);
+          INSERT INTO records_search (rowid, search_name) VALUES (new.id, new.search_name);
+        END;
+
+        INSERT INTO records_search (records_search) VALUES ('rebuild');
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0,
+);
+
+// ============================================
+// Data Fixes
+// ============================================
+
+/**
+ * Collapse records sharing an owner and RUC into the oldest one, which
+ * takes the most recently written client name. Runs once, before the
+ * unique index exists; afterwards duplicates can't be inserted.
+ * Records without an owner (user_id NULL) are grouped together too.
+ */
+async function mergeDuplicateRecords(
+  database: SQLite.SQLiteDatabase,
+): Promise<void> {
+  const groups = await database.getAllAsync<{ user_id: number | null; ruc: string }>(
+    'SELECT user_id, ruc FROM records GROUP BY user_id, ruc HAVING COUNT(*) > 1',
+  );
+
+  for (const group of groups) {
+    const rows = await database.getAllAsync<{
+      id: number;
+      client_name: string;
+      search_name: string;
+      updated_at: string;
+    }>(
+      `SELECT id, client_name, search_name, updated_at FROM records
+       WHERE user_id IS ? AND ruc = ?
+       ORDER BY updated_at DESC, id DESC`,
+      [group.user_id, group.ruc],
+    );
+
+    if (rows.length < 2) {
+      continue;
+    }
+
+    const latest = rows[0];
+    const keeperId = Math.min(...rows.map((row) => row.id));
+
+    await database.runAsync(
+      'UPDATE records SET client_name = ?, search_name = ?, updated_at = ? WHERE id = ?',
+      [latest.client_name, latest.search_name, latest.updated_at, keeperId],
+    );
+    await database.runAsync(
+      'DELETE FROM records WHERE user_id IS ? AND ruc = ? AND id != ?',
+      [group.user_id, group.ruc, keeperId],
+    );
+  }
+}
+
+// ============================================
+// Migration Runner
+// ============================================
+
+/**
+ * Read the schema version stored in PRAGMA user_version
+ */
+export async function getSchemaVersion(
+  database: SQLite.SQLiteDatabase,
+): Promise<number> {
+  const result = await database.getFirstAsync<{ user_version: number }>(
+    'PRAGMA user_version',
+  );
+  return result?.user_version ?? 0;
+}
+
+/**
+ * Apply every pending migration in order, up to targetVersion.
+ * Each step runs in its own transaction together with its version bump,
+ * so a failed step leaves the database at the previous version.
+ */
+export async function runMigrations(
+  database: SQLite.SQLiteDatabase,
+  targetVersion: number = LATEST_SCHEMA_VERSION,
+): Promise<void> {
+  const currentVersion = await getSchemaVersion(database);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(
+      currentVersion,
+      LATEST_SCHEMA_VERSION,
+    );
+  }
+
+  const pending = MIGRATIONS.filter(
+    (migration) =>
+      migration.version > currentVersion && migration.version <= targetVersion,
+  ).sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    await database.withTransactionAsync(async () => {
+      await migration.up(database);
+      // PRAGMA does not accept bound parameters
+      await database.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+    console.log(
+      `Migration ${migration.version} applied: ${migration.description}`,
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import * as Crypto from 'expo-crypto';
+import {
+  fromHex,
+  pbkdf2Sha256,
+  timingSafeEqual,
+  toHex,
+  utf8Encode,
+} from '../utils/crypto';
+import {
+  PASSWORD_HASH_ALGORITHM,
+  PASSWORD_HASH_ITERATIONS,
+  PASSWORD_HASH_KEY_LENGTH,
+  PASSWORD_SALT_LENGTH,
+} from '../utils/constants';
+
+// ============================================
+// Password Hash Format
+// ============================================
+//
+// Stored as `pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>` so the
+// parameters can be raised later without breaking existing rows.
+// Rows written before salting are a bare 64-char SHA-256 hex digest.
+
+interface ParsedHash {
+  algorithm: string;
+  iterations: number;
+  salt: Uint8Array;
+  hash: string;
+}
+
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Whether a stored hash uses the old unsalted SHA-256 format
+ */
+export function isLegacyHash(storedHash: string): boolean {
+  return LEGACY_SHA256_PATTERN.test(storedHash);
+}
+
+function parseHash(storedHash: string): ParsedHash | null {
+  const parts = storedHash.split('$');
+
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [algorithm, iterations, salt, hash] = parts;
+  const parsedIterations = parseInt(iterations, 10);
+
+  if (!Number.isFinite(parsedIterations) || parsedIterations < 1) {
+    return null;
+  }
+
+  return {
+    algorithm,
+    iterations: parsedIterations,
+    salt: fromHex(salt),
+    hash,
+  };
+}
+
+function derive(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+): string {
+  return toHex(
+    pbkdf2Sha256(
+      utf8Encode(password),
+      salt,
+      iterations,
+      PASSWORD_HASH_KEY_LENGTH,
+    ),
+  );
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Hash a password with a fresh random salt using PBKDF2-SHA256
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = await Crypto.getRandomBytesAsync(PASSWORD_SALT_LENGTH);
+  const hash = derive(password, salt, PASSWORD_HASH_ITERATIONS);
+
+  return [
+    PASSWORD_HASH_ALGORITHM,
+    PASSWORD_HASH_ITERATIONS,
+    toHex(salt),
+    hash,
+  ].join('$');
+}
+
+/**
+ * Check a password against a stored hash (current or legacy format)
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string,
+): Promise<boolean> {
+  if (isLegacyHash(storedHash)) {
+    const legacyHash = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      password,
+    );
+    return timingSafeEqual(legacyHash, storedHash.toLowerCase());
+  }
+
+  const parsed = parseHash(storedHash);
+
+  if (!parsed || parsed.algorithm !== PASSWORD_HASH_ALGORITHM) {
+    return false;
+  }
+
+  const hash = derive(password, parsed.salt, parsed.iterations);
+  return timingSafeEqual(hash, parsed.hash);
+}
+
+/**
+ * Whether a stored hash should be replaced with one using current parameters
+ */
+export function needsRehash(storedHash: string): boolean {
+  if (isLegacyHash(storedHash)) {
+    return true;
+  }
+
+  const parsed = parseHash(storedHash);
+
+  return (
+    !parsed ||
+    parsed.algorithm !== PASSWORD_HASH_ALGORITHM ||
+    parsed.iterations < PASSWORD_HASH_ITERATIONS
+  );
+}
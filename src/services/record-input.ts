@@ -0,0 +1,46 @@
+import type { RecordDetails } from '../types';
+import { DEFAULT_RECORD_STATUS } from '../utils/constants';
+import { getRecordInputError } from '../utils/validators';
+import { ValidationError } from './errors';
+
+// ============================================
+// Record Input Rules
+// ============================================
+//
+// Shared by the SQLite and in-memory record repositories so both accept
+// and store the same data.
+
+/**
+ * Reject record data the screens should have caught
+ */
+export function assertValidRecordInput(
+  input: Parameters<typeof getRecordInputError>[0],
+): void {
+  const invalid = getRecordInputError(input);
+  if (invalid) {
+    throw new ValidationError(invalid.field, invalid.message);
+  }
+}
+
+/**
+ * Fill in the optional details of a create/update input: trimmed values
+ * from the input, else the current record's values, else empty defaults
+ */
+export function resolveRecordDetails(
+  input: Partial<RecordDetails>,
+  current: RecordDetails | null,
+): RecordDetails {
+  const pick = (field: Exclude<keyof RecordDetails, 'status'>): string =>
+    input[field]?.trim() ?? current?.[field] ?? '';
+
+  return {
+    address: pick('address'),
+    district: pick('district'),
+    province: pick('province'),
+    department: pick('department'),
+    phone: pick('phone'),
+    email: pick('email'),
+    notes: pick('notes'),
+    status: input.status ?? current?.status ?? DEFAULT_RECORD_STATUS,
+  };
+}
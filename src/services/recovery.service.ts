@@ -0,0 +1,245 @@
+import * as SQLite from 'expo-sqlite';
+import type {
+  DatabaseDiagnostics,
+  SalvageReport,
+  SalvageTableResult,
+} from '../types';
+import { RECOVERED_DATABASE_NAME } from '../utils/constants';
+import { getDatabase, runIntegrityCheck, withDatabaseClosed } from './database.service';
+import {
+  getDatabaseFileName,
+  getDatabaseFileSize,
+  openDatabaseFileWithKey,
+  openEncryptedDatabase,
+  replaceDatabaseFile,
+} from './encryption.service';
+import { DatabaseCorruptError } from './errors';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, runMigrations } from './migrations';
+
+type SalvagedRow = Record<string, SQLite.SQLiteBindValue>;
+
+// Every app table, parents first so salvaged rows insert in order
+const DATABASE_TABLES = [
+  'users',
+  'records',
+  'record_history',
+  'app_settings',
+  'login_attempts',
+  'record_outbox',
+  'sync_conflicts',
+];
+
+// ============================================
+// Diagnostics
+// ============================================
+
+/**
+ * Open the database for inspection. A healthy database is shared with the
+ * app; a damaged one gets its own connection that the caller must close.
+ */
+async function openForInspection(): Promise<{
+  database: SQLite.SQLiteDatabase;
+  owned: boolean;
+}> {
+  try {
+    return { database: await getDatabase(), owned: false };
+  } catch (error) {
+    if (!(error instanceof DatabaseCorruptError)) {
+      throw error;
+    }
+    return { database: await openEncryptedDatabase(), owned: true };
+  }
+}
+
+/**
+ * Describe the database file: size, schema version, a full integrity
+ * check and the rows in each table. Works on a damaged database.
+ */
+export async function getDatabaseDiagnostics(): Promise<DatabaseDiagnostics> {
+  const { database, owned } = await openForInspection();
+
+  try {
+    let schemaVersion: number | null = null;
+    try {
+      schemaVersion = await getSchemaVersion(database);
+    } catch (error) {
+      console.warn('Could not read schema version:', error);
+    }
+
+    const tables: DatabaseDiagnostics['tables'] = [];
+    for (const table of DATABASE_TABLES) {
+      try {
+        const row = await database.getFirstAsync<{ count: number }>(
+          `SELECT COUNT(*) AS count FROM ${table}`,
+        );
+        tables.push({ table, rows: row?.count ?? 0 });
+      } catch {
+        tables.push({ table, rows: null });
+      }
+    }
+
+    return {
+      fileName: await getDatabaseFileName(),
+      fileSize: await getDatabaseFileSize(),
+      schemaVersion,
+      latestSchemaVersion: LATEST_SCHEMA_VERSION,
+      problems: await runIntegrityCheck(database, 'full'),
+      tables,
+    };
+  } finally {
+    if (owned) {
+      await database.closeAsync();
+    }
+  }
+}
+
+// ============================================
+// Salvage
+// ============================================
+
+/**
+ * Rebuild a damaged database from the rows that can still be read.
+ *
+ * The rows are copied into a new file created at the damaged database's
+ * schema version, which then runs the regular migrations. Only once that
+ * file is complete does it replace the damaged one, so a failure midway
+ * leaves the original untouched. Rows on damaged pages are lost.
+ * The app can't reopen the database until this finishes.
+ */
+export function salvageDatabase(): Promise<SalvageReport> {
+  return withDatabaseClosed(async () => {
+    const damaged = await openEncryptedDatabase();
+    let schemaVersion = LATEST_SCHEMA_VERSION;
+    const salvaged = new Map<string, SalvagedRow[]>();
+    const tables: SalvageTableResult[] = [];
+
+    try {
+      try {
+        schemaVersion = await getSchemaVersion(damaged);
+      } catch (error) {
+        console.warn('Could not read schema version, assuming latest:', error);
+      }
+
+      for (const table of DATABASE_TABLES) {
+        const { rows, lost } = await readReadableRows(damaged, table);
+        salvaged.set(table, rows);
+        tables.push({ table, recovered: rows.length, lost });
+      }
+    } finally {
+      await damaged.closeAsync();
+    }
+
+    await SQLite.deleteDatabaseAsync(RECOVERED_DATABASE_NAME).catch(() => {
+      // No leftover from an earlier attempt
+    });
+
+    const target = await openDatabaseFileWithKey(RECOVERED_DATABASE_NAME);
+    try {
+      await runMigrations(target, schemaVersion);
+
+      await target.withTransactionAsync(async () => {
+        for (const table of DATABASE_TABLES) {
+          await insertSalvagedRows(target, table, salvaged.get(table) ?? []);
+        }
+      });
+
+      await runMigrations(target);
+
+      const problems = await runIntegrityCheck(target, 'full');
+      if (problems.length > 0) {
+        throw new DatabaseCorruptError(problems);
+      }
+    } catch (error) {
+      await target.closeAsync();
+      await SQLite.deleteDatabaseAsync(RECOVERED_DATABASE_NAME);
+      throw error;
+    }
+
+    await target.closeAsync();
+    await replaceDatabaseFile(RECOVERED_DATABASE_NAME);
+
+    console.log('Database rebuilt from salvaged rows:', tables);
+    return { schemaVersion, tables };
+  });
+}
+
+/**
+ * Read every row of a table that SQLite can still decode. If the table
+ * can't be read in one go, rows are read one rowid at a time so a bad
+ * page only loses the rows on it.
+ */
+async function readReadableRows(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+): Promise<{ rows: SalvagedRow[]; lost: number | null }> {
+  try {
+    return {
+      rows: await database.getAllAsync<SalvagedRow>(`SELECT * FROM ${table}`),
+      lost: 0,
+    };
+  } catch (error) {
+    console.warn(`Reading ${table} row by row:`, error);
+  }
+
+  let maxRowId: number;
+  try {
+    const row = await database.getFirstAsync<{ max_rowid: number | null }>(
+      `SELECT MAX(rowid) AS max_rowid FROM ${table}`,
+    );
+    maxRowId = row?.max_rowid ?? 0;
+  } catch {
+    return { rows: [], lost: null }; // the table itself is unreadable
+  }
+
+  const rows: SalvagedRow[] = [];
+  let lost = 0;
+
+  for (let rowId = 1; rowId <= maxRowId; rowId++) {
+    try {
+      const row = await database.getFirstAsync<SalvagedRow>(
+        `SELECT * FROM ${table} WHERE rowid = ?`,
+        [rowId],
+      );
+      if (row) {
+        rows.push(row);
+      }
+    } catch {
+      lost++;
+    }
+  }
+
+  return { rows, lost };
+}
+
+/**
+ * Insert salvaged rows, keeping only columns the table has at the target
+ * schema version. Rows that clash with one already copied are skipped.
+ */
+async function insertSalvagedRows(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  rows: SalvagedRow[],
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (columns.length === 0) {
+    // The table comes in a later migration; its rows can't be placed
+    console.warn(`Skipping ${rows.length} salvaged rows of ${table}: no such table`);
+    return;
+  }
+
+  const known = new Set(columns.map((column) => column.name));
+
+  for (const row of rows) {
+    const names = Object.keys(row).filter((name) => known.has(name));
+    const placeholders = names.map(() => '?').join(', ');
+
+    await database.runAsync(
+      `INSERT OR IGNORE INTO ${table} (${names.map((name) => `"${name}"`).join(', ')}) VALUES (${placeholders})`,
+      names.map((name) => row[name]),
+    );
+  }
+}
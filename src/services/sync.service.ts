@@ -0,0 +1,158 @@
+import type { SyncChange, SyncPullResponse, SyncResult } from '../types';
+import {
+  SYNC_MAX_PULL_PAGES,
+  SYNC_PULL_LIMIT,
+  SYNC_PUSH_BATCH_SIZE,
+  SYNC_REQUEST_TIMEOUT_MS,
+} from '../utils/constants';
+import {
+  acknowledgeSyncChanges,
+  applyRemoteChanges,
+  failSyncChanges,
+  getDueSyncChanges,
+  getSyncCursor,
+  getSyncEndpoint,
+  markSyncSucceeded,
+  setSyncCursor,
+} from './database.service';
+
+// Only one run at a time; the interval and the manual button share it
+let inFlight: Promise<SyncResult> | null = null;
+
+// ============================================
+// HTTP
+// ============================================
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), SYNC_REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ============================================
+// Sync
+// ============================================
+
+/**
+ * Push local changes, then pull the server's. Does nothing when no
+ * endpoint is configured. Never throws: failures are reported in the
+ * result and failed pushes are retried with backoff on later runs.
+ */
+export function runSync(): Promise<SyncResult> {
+  if (!inFlight) {
+    inFlight = syncOnce().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+async function syncOnce(): Promise<SyncResult> {
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0, error: null };
+
+  try {
+    const endpoint = await getSyncEndpoint();
+    if (!endpoint) {
+      return result;
+    }
+
+    result.pushed = await push(endpoint);
+
+    const pulled = await pull(endpoint);
+    result.pulled = pulled.applied;
+    result.conflicts = pulled.conflicts;
+
+    await markSyncSucceeded();
+  } catch (error) {
+    console.warn('Sync failed:', error);
+    result.error = describeError(error);
+  }
+
+  return result;
+}
+
+/**
+ * Push due outbox changes in batches. A failed batch is scheduled for
+ * retry and stops the push; the error is rethrown so the run reports it.
+ */
+async function push(endpoint: string): Promise<number> {
+  let pushed = 0;
+
+  for (;;) {
+    const batch = await getDueSyncChanges(SYNC_PUSH_BATCH_SIZE);
+    if (batch.length === 0) {
+      return pushed;
+    }
+
+    try {
+      await request(`${endpoint}/records/push`, {
+        method: 'POST',
+        body: JSON.stringify({ changes: batch.map((pending) => pending.change) }),
+      });
+    } catch (error) {
+      await failSyncChanges(batch, describeError(error));
+      throw error;
+    }
+
+    await acknowledgeSyncChanges(batch);
+    pushed += batch.length;
+
+    if (batch.length < SYNC_PUSH_BATCH_SIZE) {
+      return pushed;
+    }
+  }
+}
+
+/**
+ * Pull changes since the saved cursor. Each page is applied and its
+ * cursor saved before the next is requested, so an interrupted pull
+ * resumes where it stopped.
+ */
+async function pull(endpoint: string): Promise<{ applied: number; conflicts: number }> {
+  const total = { applied: 0, conflicts: 0 };
+
+  for (let page = 0; page < SYNC_MAX_PULL_PAGES; page++) {
+    const cursor = await getSyncCursor();
+    const query = `since=${encodeURIComponent(cursor)}&limit=${SYNC_PULL_LIMIT}`;
+    const response = await request<SyncPullResponse>(`${endpoint}/records/changes?${query}`);
+
+    const changes: SyncChange[] = Array.isArray(response?.changes) ? response.changes : [];
+    const applied = await applyRemoteChanges(changes);
+    total.applied += applied.applied;
+    total.conflicts += applied.conflicts;
+
+    if (typeof response.cursor === 'string') {
+      await setSyncCursor(response.cursor);
+    }
+
+    if (!response.hasMore) {
+      break;
+    }
+  }
+
+  return total;
+}
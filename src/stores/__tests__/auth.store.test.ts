@@ -0,0 +1,91 @@
+import { getUserById } from '../../services/database.service';
+import type { User } from '../../types';
+import { useAuthStore } from '../auth.store';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../services/database.service', () => ({
+  getUserById: jest.fn(),
+}));
+
+jest.mock('../../services/encryption.service', () => ({}));
+
+const getUserByIdMock = jest.mocked(getUserById);
+
+const OPERATOR: User = {
+  id: 7,
+  username: 'ana_perez',
+  role: 'operator',
+  isActive: true,
+  lastLoginAt: null,
+  createdAt: '2024-01-01 00:00:00',
+};
+
+/**
+ * Put the store in a logged-in state with a fresh session
+ */
+function logIn(user: User): void {
+  const now = Date.now();
+  useAuthStore.setState({
+    isAuthenticated: true,
+    user,
+    session: { userId: user.id, issuedAt: now, lastActivityAt: now },
+    sessionExpired: false,
+    sessionRevoked: false,
+  });
+}
+
+describe('checkSession', () => {
+  beforeEach(() => {
+    getUserByIdMock.mockReset();
+    logIn(OPERATOR);
+  });
+
+  it('keeps a valid session of an active account', async () => {
+    getUserByIdMock.mockResolvedValue(OPERATOR);
+
+    expect(await useAuthStore.getState().checkSession()).toBe(true);
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+  });
+
+  it('ends the session of an account deactivated meanwhile', async () => {
+    getUserByIdMock.mockResolvedValue({ ...OPERATOR, isActive: false });
+
+    expect(await useAuthStore.getState().checkSession()).toBe(false);
+    expect(useAuthStore.getState()).toMatchObject({
+      isAuthenticated: false,
+      user: null,
+      sessionRevoked: true,
+      sessionExpired: false,
+    });
+  });
+
+  it('ends the session of a deleted account', async () => {
+    getUserByIdMock.mockResolvedValue(null);
+
+    expect(await useAuthStore.getState().checkSession()).toBe(false);
+    expect(useAuthStore.getState().sessionRevoked).toBe(true);
+  });
+
+  it('picks up a changed role', async () => {
+    getUserByIdMock.mockResolvedValue({ ...OPERATOR, role: 'readonly' });
+
+    expect(await useAuthStore.getState().checkSession()).toBe(true);
+    expect(useAuthStore.getState().user?.role).toBe('readonly');
+  });
+
+  it('ends an expired session without reading the account', async () => {
+    const longAgo = Date.now() - 24 * 60 * 60 * 1000;
+    useAuthStore.setState({
+      session: { userId: OPERATOR.id, issuedAt: longAgo, lastActivityAt: longAgo },
+    });
+
+    expect(await useAuthStore.getState().checkSession()).toBe(false);
+    expect(useAuthStore.getState().sessionExpired).toBe(true);
+    expect(getUserByIdMock).not.toHaveBeenCalled();
+  });
+});
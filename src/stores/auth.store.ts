@@ -5,37 +5,143 @@ import {
   getUserById,
   verifyCredentials,
   createUser,
+  getLoginThrottle,
+  recordFailedLogin,
+  resetLoginAttempts,
+  isSelfRegistrationEnabled,
+  deleteOwnAccount,
+  hasAnyUsers,
+  createInitialAdmin,
 } from '../services/database.service';
-import type { AuthState } from '../types';
+import {
+  DatabaseKeyError,
+  deleteEncryptedDatabase,
+} from '../services/encryption.service';
+import { DatabaseCorruptError, TooManyAttemptsError } from '../services/errors';
+import { UnsupportedSchemaVersionError } from '../services/migrations';
+import type { AuthState, Session, User } from '../types';
+import {
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_MAX_LIFETIME_MS,
+  SESSION_TOUCH_INTERVAL_MS,
+} from '../utils/constants';
+
+const AUTH_SESSION_KEY = 'auth_session';
+// Pre-expiry sessions only stored the user ID; they are discarded on startup
+const LEGACY_AUTH_USER_KEY = 'auth_user_id';
+
+// ============================================
+// Session Helpers
+// ============================================
 
-const AUTH_USER_KEY = 'auth_user_id';
+function createSession(userId: number): Session {
+  const now = Date.now();
+  return { userId, issuedAt: now, lastActivityAt: now };
+}
+
+async function saveSession(session: Session): Promise<void> {
+  await SecureStore.setItemAsync(AUTH_SESSION_KEY, JSON.stringify(session));
+}
+
+async function loadSession(): Promise<Session | null> {
+  const stored = await SecureStore.getItemAsync(AUTH_SESSION_KEY);
+
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(stored) as Session;
+    if (
+      typeof session.userId !== 'number' ||
+      typeof session.issuedAt !== 'number' ||
+      typeof session.lastActivityAt !== 'number'
+    ) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A session expires after SESSION_IDLE_TIMEOUT_MS without activity or
+ * SESSION_MAX_LIFETIME_MS after login, whichever comes first
+ */
+function isSessionExpired(session: Session, now: number): boolean {
+  return (
+    now - session.lastActivityAt > SESSION_IDLE_TIMEOUT_MS ||
+    now - session.issuedAt > SESSION_MAX_LIFETIME_MS
+  );
+}
 
 export const useAuthStore = create<AuthState>((set, get) => ({
   isAuthenticated: false,
   user: null,
   isLoading: false,
   isInitialized: false,
+  loginRetryAt: null,
+  session: null,
+  sessionExpired: false,
+  sessionRevoked: false,
+  needsSetup: false,
+  databaseKeyError: false,
+  databaseCorrupt: false,
+  databaseTooNew: false,
 
   /**
    * Initialize auth state from secure storage
    */
   initialize: async () => {
     try {
-      set({ isLoading: true });
+      set({
+        isLoading: true,
+        databaseKeyError: false,
+        databaseCorrupt: false,
+        databaseTooNew: false,
+      });
 
       // Ensure database is initialized
       await getDatabase();
 
-      // Check if user is stored in secure storage
-      const storedUserId = await SecureStore.getItemAsync(AUTH_USER_KEY);
+      // An empty users table means the first admin must be created
+      if (!(await hasAnyUsers())) {
+        await SecureStore.deleteItemAsync(AUTH_SESSION_KEY);
+        set({
+          isAuthenticated: false,
+          user: null,
+          session: null,
+          needsSetup: true,
+          isInitialized: true,
+          isLoading: false,
+        });
+        return;
+      }
+
+      await SecureStore.deleteItemAsync(LEGACY_AUTH_USER_KEY);
+
+      // Check if a session is stored in secure storage
+      const storedSession = await loadSession();
+      const now = Date.now();
+
+      let revoked = false;
+
+      if (storedSession && !isSessionExpired(storedSession, now)) {
+        const user = await getUserById(storedSession.userId);
+
+        // Deactivated accounts lose their session
+        revoked = !user || !user.isActive;
 
-      if (storedUserId) {
-        const user = await getUserById(parseInt(storedUserId, 10));
+        if (user && !revoked) {
+          // Opening the app counts as activity
+          const session = { ...storedSession, lastActivityAt: now };
+          await saveSession(session);
 
-        if (user) {
           set({
             isAuthenticated: true,
             user,
+            session,
             isInitialized: true,
             isLoading: false,
           });
@@ -44,9 +150,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       }
 
       // No valid stored session
+      if (storedSession) {
+        await SecureStore.deleteItemAsync(AUTH_SESSION_KEY);
+      }
+
       set({
         isAuthenticated: false,
         user: null,
+        session: null,
+        sessionExpired: storedSession !== null && !revoked,
+        sessionRevoked: revoked,
         isInitialized: true,
         isLoading: false,
       });
@@ -55,6 +168,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       set({
         isAuthenticated: false,
         user: null,
+        databaseKeyError: error instanceof DatabaseKeyError,
+        databaseCorrupt: error instanceof DatabaseCorruptError,
+        databaseTooNew: error instanceof UnsupportedSchemaVersionError,
         isInitialized: true,
         isLoading: false,
       });
@@ -62,28 +178,71 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   /**
-   * Login with username and password
+   * Erase the local database and its key, then start over from setup.
+   * Only offered when the database can't be decrypted or is damaged.
+   */
+  resetLocalData: async () => {
+    set({ isLoading: true });
+    try {
+      await deleteEncryptedDatabase();
+      await SecureStore.deleteItemAsync(AUTH_SESSION_KEY);
+    } catch (error) {
+      console.error('Reset local data error:', error);
+    }
+    await get().initialize();
+  },
+
+  /**
+   * Login with username and password.
+   * Repeated failures are throttled per username; `loginRetryAt` holds the
+   * last throttled username and when its next attempt will be accepted.
    */
   login: async (username: string, password: string): Promise<boolean> => {
     try {
       set({ isLoading: true });
 
+      // Refuse to check the password while throttled
+      const throttle = await getLoginThrottle(username);
+
+      if (throttle.retryAt) {
+        set({ isLoading: false, loginRetryAt: { username, retryAt: throttle.retryAt } });
+        return false;
+      }
+
       const user = await verifyCredentials(username, password);
 
       if (user) {
-        // Store user ID in secure storage
-        await SecureStore.setItemAsync(AUTH_USER_KEY, user.id.toString());
+        await resetLoginAttempts(username);
+
+        // Store a fresh session in secure storage
+        const session = createSession(user.id);
+        await saveSession(session);
 
         set({
           isAuthenticated: true,
           user,
+          session,
+          sessionExpired: false,
+          sessionRevoked: false,
           isLoading: false,
+          loginRetryAt: null,
         });
 
         return true;
       }
 
-      set({ isLoading: false });
+      const updatedThrottle = await recordFailedLogin(username);
+
+      // Keep another username's countdown unless this one is now throttled
+      const current = get().loginRetryAt;
+      set({
+        isLoading: false,
+        loginRetryAt: updatedThrottle.retryAt
+          ? { username, retryAt: updatedThrottle.retryAt }
+          : current?.username === username
+            ? null
+            : current,
+      });
       return false;
     } catch (error) {
       console.error('Login error:', error);
@@ -93,25 +252,32 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   /**
-   * Register a new user and auto-login
+   * Register a new user and auto-login.
+   * Returns false if open registration is closed; other failures (e.g.
+   * DuplicateUsernameError) are rethrown for the screen to explain.
    */
   register: async (username: string, password: string): Promise<boolean> => {
     try {
       set({ isLoading: true });
 
-      const user = await createUser(username.trim(), password);
-      
-      if (!user) {
+      // Admins may close open registration; before setup there is no admin yet
+      if (get().needsSetup || !(await isSelfRegistrationEnabled())) {
         set({ isLoading: false });
-        return false; // User already exists or error creating user
+        return false;
       }
 
-      // Auto-login: Store user ID in secure storage
-      await SecureStore.setItemAsync(AUTH_USER_KEY, user.id.toString());
+      const user = await createUser(username.trim(), password);
+
+      // Auto-login: Store a fresh session in secure storage
+      const session = createSession(user.id);
+      await saveSession(session);
 
       set({
         isAuthenticated: true,
         user,
+        session,
+        sessionExpired: false,
+        sessionRevoked: false,
         isLoading: false,
       });
 
@@ -119,6 +285,39 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     } catch (error) {
       console.error('Register error:', error);
       set({ isLoading: false });
+      throw error;
+    }
+  },
+
+  /**
+   * Create the first admin account and log in
+   */
+  completeSetup: async (username: string, password: string): Promise<boolean> => {
+    try {
+      set({ isLoading: true });
+
+      const user = await createInitialAdmin(username.trim(), password);
+
+      if (!user) {
+        set({ isLoading: false, needsSetup: false });
+        return false; // Setup already completed
+      }
+
+      const session = createSession(user.id);
+      await saveSession(session);
+
+      set({
+        isAuthenticated: true,
+        user,
+        session,
+        needsSetup: false,
+        isLoading: false,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Setup error:', error);
+      set({ isLoading: false });
       return false;
     }
   },
@@ -131,11 +330,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       set({ isLoading: true });
 
       // Clear secure storage
-      await SecureStore.deleteItemAsync(AUTH_USER_KEY);
+      await SecureStore.deleteItemAsync(AUTH_SESSION_KEY);
 
       set({
         isAuthenticated: false,
         user: null,
+        session: null,
         isLoading: false,
       });
     } catch (error) {
@@ -143,8 +343,105 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       set({
         isAuthenticated: false,
         user: null,
+        session: null,
         isLoading: false,
       });
     }
   },
+
+  /**
+   * Delete the logged-in user's account and end the session.
+   * TooManyAttemptsError is rethrown for the screen to explain.
+   */
+  deleteAccount: async (password: string): Promise<boolean> => {
+    const { user, logout } = get();
+
+    if (!user) {
+      return false;
+    }
+
+    try {
+      set({ isLoading: true });
+
+      const deleted = await deleteOwnAccount(user.id, password);
+
+      if (!deleted) {
+        set({ isLoading: false });
+        return false;
+      }
+
+      await logout();
+      return true;
+    } catch (error) {
+      console.error('Delete account error:', error);
+      set({ isLoading: false });
+      if (error instanceof TooManyAttemptsError) {
+        throw error;
+      }
+      return false;
+    }
+  },
+
+  /**
+   * Record user activity, persisting it at most once per
+   * SESSION_TOUCH_INTERVAL_MS to avoid hammering secure storage
+   */
+  touchSession: () => {
+    const { session } = get();
+    const now = Date.now();
+
+    if (!session || now - session.lastActivityAt < SESSION_TOUCH_INTERVAL_MS) {
+      return;
+    }
+
+    if (isSessionExpired(session, now)) {
+      // Let checkSession handle the logout
+      return;
+    }
+
+    const updatedSession = { ...session, lastActivityAt: now };
+    set({ session: updatedSession });
+    saveSession(updatedSession).catch((error) => {
+      console.error('Session save error:', error);
+    });
+  },
+
+  /**
+   * Logout if the current session has expired or an admin deactivated
+   * the account meanwhile; otherwise pick up a changed role
+   * @returns true if the session is still valid
+   */
+  checkSession: async (): Promise<boolean> => {
+    const { session, isAuthenticated, logout } = get();
+
+    if (!isAuthenticated || !session) {
+      return false;
+    }
+
+    if (isSessionExpired(session, Date.now())) {
+      await logout();
+      set({ sessionExpired: true });
+      return false;
+    }
+
+    let user: User | null;
+    try {
+      user = await getUserById(session.userId);
+    } catch (error) {
+      // Keep the session; the next check reads the account again
+      console.error('Session check error:', error);
+      return true;
+    }
+
+    if (!user || !user.isActive) {
+      await logout();
+      set({ sessionRevoked: true });
+      return false;
+    }
+
+    if (user.role !== get().user?.role) {
+      set({ user });
+    }
+    return true;
+  },
 }));
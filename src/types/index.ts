@@ -2,9 +2,23 @@
 // User Types
 // ============================================
 
+export type UserRole = 'admin' | 'operator' | 'readonly';
+
+export type Permission =
+  | 'records:create'
+  | 'records:edit'
+  | 'records:delete'
+  | 'records:view_all'
+  | 'bluetooth:write'
+  | 'users:manage'
+  | 'settings:manage';
+
 export interface User {
   id: number;
   username: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
   createdAt: string;
 }
 
@@ -13,27 +27,313 @@ export interface UserCredentials {
   password: string;
 }
 
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLetter: boolean;
+  requireDigit: boolean;
+  requireMixedCase: boolean;
+  requireSymbol: boolean;
+  disallowUsername: boolean;
+  deniedPasswords: string[]; // compared case-insensitively
+}
+
+export type PasswordPolicyFailureCode =
+  | 'required'
+  | 'too_short'
+  | 'too_long'
+  | 'missing_letter'
+  | 'missing_digit'
+  | 'missing_mixed_case'
+  | 'missing_symbol'
+  | 'common_password'
+  | 'contains_username';
+
+export interface PasswordPolicyFailure {
+  code: PasswordPolicyFailureCode;
+  message: string;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+export interface Session {
+  userId: number;
+  issuedAt: number; // epoch ms
+  lastActivityAt: number; // epoch ms
+}
+
+export interface LoginThrottle {
+  failedCount: number;
+  retryAt: number | null; // epoch ms; null when a login may be attempted now
+  isLockedOut: boolean;
+}
+
 // ============================================
 // Record Types (Client Registration)
 // ============================================
 
-export interface ClientRecord {
+export type RecordStatus = 'prospect' | 'active' | 'inactive';
+
+// Optional client data beyond RUC and name; empty string when not provided
+export interface RecordDetails {
+  address: string; // fiscal address
+  district: string;
+  province: string;
+  department: string;
+  phone: string;
+  email: string;
+  notes: string;
+  status: RecordStatus;
+}
+
+export interface ClientRecord extends RecordDetails {
   id: number;
+  userId: number;
   ruc: string;
   clientName: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt: string | null; // set while the record is in the trash
+}
+
+export interface CreateRecordInput extends Partial<RecordDetails> {
+  userId: number;
+  ruc: string;
+  clientName: string;
 }
 
-export interface CreateRecordInput {
+// Details left undefined keep their current value
+export interface UpdateRecordInput extends Partial<RecordDetails> {
+  id: number;
+  userId: number;
   ruc: string;
   clientName: string;
 }
 
-export interface UpdateRecordInput {
+export type RucType = '10' | '15' | '17' | '20';
+
+// Taxpayer category, from the RUC prefix: 10, 15/17 and 20
+export type RucCategory = 'natural' | 'special' | 'juridica';
+
+export interface ParsedRuc {
+  ruc: string; // digits only, without spaces, dashes or dots
+  type: RucType;
+  category: RucCategory;
+  dni: string | null; // the embedded DNI, only for prefix 10
+  dniCheckDigit: number | null; // printed after the number on the DNI card
+}
+
+export type RecordSortOption =
+  | 'created_desc'
+  | 'created_asc'
+  | 'updated_desc'
+  | 'name_asc'
+  | 'name_desc';
+
+export interface RecordFilters {
+  query?: string; // client name (accent-insensitive) or RUC prefix
+  rucTypes?: RucType[];
+  dateFrom?: string; // inclusive, 'YYYY-MM-DD' local date
+  dateTo?: string; // inclusive, 'YYYY-MM-DD' local date
+  sort?: RecordSortOption;
+}
+
+export type RecordHistoryAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'purge';
+
+// Fields whose values are kept in the change history
+export type RecordAuditField = 'ruc' | 'clientName' | 'owner' | keyof RecordDetails;
+
+export type RecordChanges = Partial<
+  Record<RecordAuditField, { old: string | null; new: string | null }>
+>;
+
+export interface RecordHistoryEntry {
+  id: number;
+  recordId: number;
+  action: RecordHistoryAction;
+  actorId: number | null; // null for changes made by the app itself
+  actorUsername: string | null; // as it was when the change was made
+  changes: RecordChanges;
+  createdAt: string;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+// Position after the last row of a page: its sort column value and id
+export interface RecordCursor {
+  sortValue: string;
   id: number;
+}
+
+export interface RecordPage {
+  records: ClientRecord[];
+  nextCursor: RecordCursor | null; // null when there are no more rows
+  totalCount: number; // rows matching the filters across all pages
+}
+
+// CSV picked for import, already split into rows of cells
+export interface ImportFile {
+  name: string;
+  rows: string[][];
+}
+
+// What to do with imported rows whose RUC is already registered
+export type ImportDuplicateMode = 'skip' | 'update';
+
+// Column index of each imported field in the CSV
+export interface ImportColumnMapping {
+  ruc: number;
+  clientName: number;
+}
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, for the report
   ruc: string;
   clientName: string;
+  errors: string[]; // empty when the row can be imported
+  duplicateOfId: number | null; // existing record with the same RUC
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+// ============================================
+// Sync Types
+// ============================================
+
+export type SyncOperation = 'upsert' | 'delete';
+
+// A record as exchanged with the sync server. Owners are identified by
+// username since user IDs are local to each device.
+export interface SyncRecord extends RecordDetails {
+  syncId: string;
+  owner: string;
+  ruc: string;
+  clientName: string;
+  createdAt: string; // ISO 8601, UTC
+  updatedAt: string;
+  deletedAt: string | null; // set while the record is in the trash
+}
+
+// One change in either direction; `record` is set for upserts
+export interface SyncChange {
+  operation: SyncOperation;
+  syncId: string;
+  record?: SyncRecord;
+}
+
+// Outbox changes ready to push, with the revision each one was read at
+export interface PendingSyncChange {
+  change: SyncChange;
+  revision: number;
+  attempts: number;
+}
+
+export interface SyncPullResponse {
+  changes: SyncChange[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+export type SyncConflictWinner = 'local' | 'remote';
+
+// A change made on this device and on the server before they synced.
+// The newer updated_at wins; null means that side deleted the record.
+export interface SyncConflict {
+  id: number;
+  syncId: string;
+  winner: SyncConflictWinner;
+  local: SyncRecord | null;
+  remote: SyncRecord | null;
+  createdAt: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failing: number; // pending changes whose last push failed
+  lastError: string | null;
+  lastSyncAt: string | null;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  error: string | null;
+}
+
+// ============================================
+// Diagnostics Types
+// ============================================
+
+export interface DatabaseDiagnostics {
+  fileName: string;
+  fileSize: number; // bytes
+  schemaVersion: number | null; // null if unreadable
+  latestSchemaVersion: number;
+  problems: string[]; // PRAGMA integrity_check output; empty when healthy
+  tables: { table: string; rows: number | null }[]; // null if unreadable
+}
+
+export interface SalvageTableResult {
+  table: string;
+  recovered: number;
+  lost: number | null; // rows that failed to read; null if the whole table did
+}
+
+export interface SalvageReport {
+  schemaVersion: number;
+  tables: SalvageTableResult[];
+}
+
+// ============================================
+// Backup Types
+// ============================================
+
+// Tables copied into a backup archive
+export type BackupTable = 'users' | 'records' | 'record_history' | 'app_settings';
+
+// A table row as stored in the archive, keyed by column name
+export type BackupRow = Record<string, string | number | null>;
+
+export interface BackupArchive {
+  format: string;
+  formatVersion: number;
+  schemaVersion: number; // PRAGMA user_version of the database it came from
+  createdAt: string;
+  checksum: string; // SHA-256 (hex) of JSON.stringify(tables)
+  tables: Partial<Record<BackupTable, BackupRow[]>>;
+}
+
+// Password hashes never leave the device
+export type BackupUser = Omit<DatabaseUser, 'password_hash'>;
+
+// Archive contents migrated to the current schema, ready to restore
+export interface BackupContents {
+  users: BackupUser[];
+  records: DatabaseRecord[];
+  history: DatabaseRecordHistory[];
+  settings: { key: string; value: string }[];
+}
+
+// replace: the archive's records and settings replace the current ones
+// merge: archive records are added, keeping the newer version of shared RUCs
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreResult {
+  usersCreated: number; // accounts that need a password reset to log in
+  recordsRestored: number;
 }
 
 // ============================================
@@ -73,10 +373,23 @@ export interface AuthState {
   user: User | null;
   isLoading: boolean;
   isInitialized: boolean;
+  loginRetryAt: { username: string; retryAt: number } | null; // throttled username
+  session: Session | null;
+  sessionExpired: boolean;
+  sessionRevoked: boolean; // an admin deactivated the account during the session
+  needsSetup: boolean;
+  databaseKeyError: boolean; // the encrypted database can't be opened
+  databaseCorrupt: boolean; // the database failed its integrity check
+  databaseTooNew: boolean; // the database was written by a newer app version
   login: (username: string, password: string) => Promise<boolean>;
   register: (username: string, password: string) => Promise<boolean>;
+  completeSetup: (username: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
+  deleteAccount: (password: string) => Promise<boolean>;
   initialize: () => Promise<void>;
+  resetLocalData: () => Promise<void>;
+  touchSession: () => void;
+  checkSession: () => Promise<boolean>;
 }
 
 // ============================================
@@ -102,6 +415,29 @@ export interface BluetoothState {
   checkBLEState: () => Promise<void>;
 }
 
+// ============================================
+// Repository Types
+// ============================================
+
+// Storage behind the user operations; see database.service for the rules
+// each method follows. Failures throw the errors in services/errors.
+export interface UserRepository {
+  verifyCredentials: (username: string, password: string) => Promise<User | null>;
+  getById: (id: number) => Promise<User | null>;
+  create: (username: string, password: string, role?: UserRole) => Promise<User>;
+}
+
+// Storage behind the record operations. Every method is scoped to the
+// owner; create and update throw DuplicateRecordError for a taken RUC.
+// The optional actor is who made a change on the owner's behalf.
+export interface RecordRepository {
+  create: (input: CreateRecordInput) => Promise<ClientRecord>;
+  update: (input: UpdateRecordInput, actorId?: number) => Promise<ClientRecord>;
+  delete: (id: number, userId: number, actorId?: number) => Promise<boolean>;
+  getById: (id: number, userId: number) => Promise<ClientRecord | null>;
+  findByRuc: (userId: number, ruc: string) => Promise<ClientRecord | null>;
+}
+
 // ============================================
 // Database Types
 // ============================================
@@ -110,15 +446,69 @@ export interface DatabaseUser {
   id: number;
   username: string;
   password_hash: string;
+  role: UserRole;
+  is_active: number;
+  last_login_at: string | null;
   created_at: string;
 }
 
+export interface DatabaseLoginAttempt {
+  username: string;
+  failed_count: number;
+  last_failed_at: number | null;
+  locked_until: number | null;
+}
+
 export interface DatabaseRecord {
   id: number;
+  user_id: number;
   ruc: string;
   client_name: string;
+  search_name: string;
+  address: string;
+  district: string;
+  province: string;
+  department: string;
+  phone: string;
+  email: string;
+  notes: string;
+  status: RecordStatus;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
+  sync_id: string;
+}
+
+export interface DatabaseRecordHistory {
+  id: number;
+  record_id: number;
+  action: RecordHistoryAction;
+  actor_id: number | null;
+  actor_username: string | null;
+  changes: string; // JSON-encoded RecordChanges
+  created_at: string;
+}
+
+export interface DatabaseOutboxEntry {
+  id: number;
+  sync_id: string;
+  operation: SyncOperation;
+  revision: number; // bumped on every change, so a late ack can't drop a newer one
+  attempts: number;
+  next_attempt_at: number; // epoch ms
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface DatabaseSyncConflict {
+  id: number;
+  sync_id: string;
+  user_id: number | null;
+  winner: SyncConflictWinner;
+  local: string | null; // JSON-encoded SyncRecord
+  remote: string | null;
+  created_at: string;
+  resolved_at: string | null;
 }
 
 // ============================================
@@ -0,0 +1,68 @@
+import type { Permission, User, UserRole } from '../../types';
+import { getRecordOwnerScope, hasPermission } from '../permissions';
+
+function userWithRole(role: UserRole): User {
+  return {
+    id: 7,
+    username: 'ana_perez',
+    role,
+    isActive: true,
+    lastLoginAt: null,
+    createdAt: '2024-01-01 00:00:00',
+  };
+}
+
+/**
+ * Every permission the role has, in declaration order
+ */
+function grantedPermissions(role: UserRole): Permission[] {
+  const all: Permission[] = [
+    'records:create',
+    'records:edit',
+    'records:delete',
+    'records:view_all',
+    'bluetooth:write',
+    'users:manage',
+    'settings:manage',
+  ];
+  return all.filter((permission) => hasPermission(userWithRole(role), permission));
+}
+
+describe('hasPermission', () => {
+  it('gives admins everything, on every owner\'s records', () => {
+    const admin = userWithRole('admin');
+
+    expect(grantedPermissions('admin')).toEqual([
+      'records:create',
+      'records:edit',
+      'records:delete',
+      'records:view_all',
+      'bluetooth:write',
+      'users:manage',
+      'settings:manage',
+    ]);
+    expect(getRecordOwnerScope(admin)).toBeNull();
+  });
+
+  it('limits operators to field work on their own records', () => {
+    const operator = userWithRole('operator');
+
+    expect(grantedPermissions('operator')).toEqual([
+      'records:create',
+      'records:edit',
+      'bluetooth:write',
+    ]);
+    expect(getRecordOwnerScope(operator)).toBe(operator.id);
+  });
+
+  it('lets read-only users browse every owner\'s records and nothing else', () => {
+    const readonly = userWithRole('readonly');
+
+    expect(grantedPermissions('readonly')).toEqual(['records:view_all']);
+    expect(getRecordOwnerScope(readonly)).toBeNull();
+  });
+
+  it('grants nothing when logged out', () => {
+    expect(hasPermission(null, 'records:view_all')).toBe(false);
+  });
+});
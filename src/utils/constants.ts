@@ -1,20 +1,149 @@
+import type {
+  PasswordPolicy,
+  RecordAuditField,
+  RecordHistoryAction,
+  RecordSortOption,
+  RecordStatus,
+  RucCategory,
+  RucType,
+  UserRole,
+} from '../types';
+
 // ============================================
 // App Constants
 // ============================================
 
 export const APP_NAME = 'HMG Demo';
 
-// Default demo credentials
+// Demo credentials, only seeded when SEED_DEMO_USER is on
 export const DEMO_USER = {
   username: 'admin',
   password: 'admin123',
 };
 
+// Development-only: seed DEMO_USER on an empty database instead of running
+// the first-run setup. Enable with EXPO_PUBLIC_SEED_DEMO_USER=true.
+export const SEED_DEMO_USER =
+  __DEV__ && process.env.EXPO_PUBLIC_SEED_DEMO_USER === 'true';
+
 // ============================================
 // Database Constants
 // ============================================
 
 export const DATABASE_NAME = 'hmg_demo.db';
+// SQLCipher builds keep the data here; DATABASE_NAME is only read to
+// migrate plaintext databases from earlier versions
+export const ENCRYPTED_DATABASE_NAME = 'hmg_demo.encrypted.db';
+export const DATABASE_KEY_LENGTH = 32; // bytes
+// Fresh file the recovery tool rebuilds the database into before the swap
+export const RECOVERED_DATABASE_NAME = 'hmg_demo.recovered.db';
+// Problems reported by PRAGMA quick_check / integrity_check
+export const INTEGRITY_CHECK_MAX_ERRORS = 20;
+
+// Keys of the app_settings table
+export const SETTINGS_KEYS = {
+  selfRegistrationEnabled: 'self_registration_enabled',
+  trashRetentionDays: 'trash_retention_days',
+  syncEndpoint: 'sync_endpoint',
+  syncCursor: 'sync_cursor',
+  syncLastSuccessAt: 'sync_last_success_at',
+};
+
+// ============================================
+// Role Constants
+// ============================================
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  operator: 'Operador',
+  readonly: 'Solo lectura',
+};
+
+// Role assigned to accounts created from the public register screen
+export const DEFAULT_USER_ROLE: UserRole = 'operator';
+
+// ============================================
+// Password Hashing Constants
+// ============================================
+
+export const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+export const PASSWORD_HASH_ITERATIONS = 10000;
+export const PASSWORD_HASH_KEY_LENGTH = 32; // bytes
+export const PASSWORD_SALT_LENGTH = 16; // bytes
+
+// ============================================
+// Password Policy Constants
+// ============================================
+
+// Rules for new passwords (existing weaker passwords can still log in)
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 100,
+  requireLetter: true,
+  requireDigit: true,
+  requireMixedCase: false,
+  requireSymbol: false,
+  disallowUsername: true,
+  deniedPasswords: [
+    'admin123',
+    'admin1234',
+    'administrador',
+    'password',
+    'password1',
+    'password123',
+    'passw0rd',
+    'contraseña',
+    'contrasena',
+    'contrasena1',
+    '12345678',
+    '123456789',
+    '1234567890',
+    '11111111',
+    '00000000',
+    'qwerty123',
+    'qwertyuiop',
+    'abc12345',
+    'abcd1234',
+    'iloveyou',
+    'welcome1',
+    'peru1234',
+    'hmg12345',
+  ],
+};
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 50;
+
+// ============================================
+// Session Constants
+// ============================================
+
+export const SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+export const SESSION_MAX_LIFETIME_MS = 12 * 60 * 60 * 1000; // 12 hours
+export const SESSION_CHECK_INTERVAL_MS = 30 * 1000; // 30 seconds
+export const SESSION_TOUCH_INTERVAL_MS = 60 * 1000; // persist activity at most once a minute
+
+// ============================================
+// Login Throttling Constants
+// ============================================
+
+export const LOGIN_FREE_ATTEMPTS = 3; // failures allowed before any delay
+export const LOGIN_BASE_DELAY_MS = 2000; // doubles with each further failure
+export const LOGIN_MAX_DELAY_MS = 60000; // 1 minute
+export const LOGIN_LOCKOUT_ATTEMPTS = 8; // failures that trigger a lockout
+export const LOGIN_LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+// ============================================
+// Sync Constants
+// ============================================
+
+export const SYNC_INTERVAL_MS = 60 * 1000; // background sync while logged in
+export const SYNC_REQUEST_TIMEOUT_MS = 15000;
+export const SYNC_PUSH_BATCH_SIZE = 50; // outbox changes per request
+export const SYNC_PULL_LIMIT = 200; // server changes per request
+export const SYNC_MAX_PULL_PAGES = 20; // per sync run; the rest waits for the next one
+export const SYNC_BASE_DELAY_MS = 5000; // retry delay, doubles with each failure
+export const SYNC_MAX_DELAY_MS = 30 * 60 * 1000; // 30 minutes
 
 // ============================================
 // Bluetooth Constants
@@ -33,6 +162,100 @@ export const RUC_VALID_PREFIXES = ['10', '15', '17', '20'];
 // RUC verification factors for module 11 algorithm
 export const RUC_FACTORS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
 
+export const RUC_TYPE_LABELS: Record<RucType, string> = {
+  '10': 'Persona natural',
+  '15': 'Sin fines de lucro',
+  '17': 'Entidad del estado',
+  '20': 'Persona jurídica',
+};
+
+export const RUC_CATEGORY_LABELS: Record<RucCategory, string> = {
+  natural: 'Persona natural',
+  special: 'Caso especial',
+  juridica: 'Persona jurídica',
+};
+
+export const RUC_CATEGORY_PREFIXES: Record<RucCategory, RucType[]> = {
+  natural: ['10'],
+  special: ['15', '17'],
+  juridica: ['20'],
+};
+
+export const RUC_TYPE_CATEGORIES: Record<RucType, RucCategory> = {
+  '10': 'natural',
+  '15': 'special',
+  '17': 'special',
+  '20': 'juridica',
+};
+
+// DNI verification code: module 11 over the 8 digits, mapped to the digit
+// RENIEC prints after the number
+export const DNI_FACTORS = [3, 2, 7, 6, 5, 4, 3, 2];
+export const DNI_CHECK_DIGITS = [6, 7, 8, 9, 0, 1, 1, 2, 3, 4, 5];
+
+// ============================================
+// Record List Constants
+// ============================================
+
+export const RECORD_SORT_LABELS: Record<RecordSortOption, string> = {
+  created_desc: 'Más recientes',
+  created_asc: 'Más antiguos',
+  updated_desc: 'Editados recientemente',
+  name_asc: 'Nombre (A-Z)',
+  name_desc: 'Nombre (Z-A)',
+};
+
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export const RECORD_HISTORY_ACTION_LABELS: Record<RecordHistoryAction, string> = {
+  create: 'Creado',
+  update: 'Editado',
+  delete: 'Movido a la papelera',
+  restore: 'Restaurado',
+  purge: 'Eliminado definitivamente',
+};
+
+export const RECORD_FIELD_LABELS: Record<RecordAuditField, string> = {
+  ruc: 'RUC',
+  clientName: 'Cliente',
+  owner: 'Dueño',
+  address: 'Dirección fiscal',
+  district: 'Distrito',
+  province: 'Provincia',
+  department: 'Departamento',
+  phone: 'Teléfono',
+  email: 'Correo',
+  notes: 'Notas',
+  status: 'Estado',
+};
+
+export const RECORD_STATUS_LABELS: Record<RecordStatus, string> = {
+  prospect: 'Prospecto',
+  active: 'Activo',
+  inactive: 'Inactivo',
+};
+
+export const DEFAULT_RECORD_STATUS: RecordStatus = 'active';
+
+export const RECORDS_PAGE_SIZE = 30;
+
+// Deleted records stay in the trash this long before being purged
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+// How long the undo snackbar stays visible after deleting
+export const UNDO_TIMEOUT_MS = 5000;
+
+// Bump when the exported JSON layout changes so importers can adapt
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Identifies backup archives; bump the version when their layout changes
+export const BACKUP_FORMAT = 'hmg-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Rows listed per section in the import preview; the counts cover all rows
+export const IMPORT_PREVIEW_LIMIT = 50;
+
 // ============================================
 // UI Constants
 // ============================================
@@ -51,6 +274,7 @@ export const COLORS = {
   textLight: '#94a3b8',
   border: '#e2e8f0',
   disabled: '#cbd5e1',
+  snackbarAction: '#7dd3fc',
 };
 
 export const SPACING = {
@@ -0,0 +1,261 @@
+// ============================================
+// SHA-256 / HMAC / PBKDF2 (pure TypeScript)
+// ============================================
+//
+// expo-crypto only exposes one-shot digests over the native bridge, which is
+// far too slow to call thousands of times per key derivation. These helpers
+// run entirely in JS so PBKDF2 can iterate without crossing the bridge.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Process one 64-byte block, updating state in place
+ */
+function compress(
+  state: Uint32Array,
+  block: Uint8Array,
+  offset: number,
+  w: Uint32Array,
+): void {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] =
+      (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const x = w[i - 15];
+    const y = w[i - 2];
+    const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+    const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+/**
+ * Hash data continuing from a given state.
+ * `prefixLength` is the number of bytes already absorbed into `state`.
+ */
+function sha256From(
+  initial: ArrayLike<number>,
+  data: Uint8Array,
+  prefixLength: number,
+): Uint8Array {
+  const state = new Uint32Array(initial);
+  const w = new Uint32Array(64);
+  const fullBlocks = Math.floor(data.length / BLOCK_SIZE);
+
+  for (let i = 0; i < fullBlocks; i++) {
+    compress(state, data, i * BLOCK_SIZE, w);
+  }
+
+  // Padding: 0x80, zeros, then the 64-bit big-endian bit length
+  const remaining = data.length - fullBlocks * BLOCK_SIZE;
+  const tailLength = remaining < 56 ? BLOCK_SIZE : BLOCK_SIZE * 2;
+  const tail = new Uint8Array(tailLength);
+  tail.set(data.subarray(fullBlocks * BLOCK_SIZE));
+  tail[remaining] = 0x80;
+
+  const bitLength = (prefixLength + data.length) * 8;
+  const high = Math.floor(bitLength / 0x100000000);
+  const low = bitLength >>> 0;
+  tail[tailLength - 8] = high >>> 24;
+  tail[tailLength - 7] = high >>> 16;
+  tail[tailLength - 6] = high >>> 8;
+  tail[tailLength - 5] = high;
+  tail[tailLength - 4] = low >>> 24;
+  tail[tailLength - 3] = low >>> 16;
+  tail[tailLength - 2] = low >>> 8;
+  tail[tailLength - 1] = low;
+
+  for (let i = 0; i < tailLength; i += BLOCK_SIZE) {
+    compress(state, tail, i, w);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 8; i++) {
+    out[i * 4] = state[i] >>> 24;
+    out[i * 4 + 1] = state[i] >>> 16;
+    out[i * 4 + 2] = state[i] >>> 8;
+    out[i * 4 + 3] = state[i];
+  }
+  return out;
+}
+
+/**
+ * SHA-256 digest of raw bytes
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  return sha256From(INITIAL_STATE, data, 0);
+}
+
+/**
+ * HMAC-SHA256 keyed with `key`, with the padded key blocks pre-absorbed
+ * so repeated MACs (as in PBKDF2) skip two compressions each.
+ */
+function createHmac(key: Uint8Array): (message: Uint8Array) => Uint8Array {
+  const normalizedKey = key.length > BLOCK_SIZE ? sha256(key) : key;
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const k = normalizedKey[i] ?? 0;
+    inner[i] = k ^ 0x36;
+    outer[i] = k ^ 0x5c;
+  }
+
+  const w = new Uint32Array(64);
+  const innerState = new Uint32Array(INITIAL_STATE);
+  const outerState = new Uint32Array(INITIAL_STATE);
+  compress(innerState, inner, 0, w);
+  compress(outerState, outer, 0, w);
+
+  return (message) => {
+    const innerHash = sha256From(innerState, message, BLOCK_SIZE);
+    return sha256From(outerState, innerHash, BLOCK_SIZE);
+  };
+}
+
+/**
+ * HMAC-SHA256 of a message
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  return createHmac(key)(message);
+}
+
+/**
+ * PBKDF2 with HMAC-SHA256 (RFC 8018)
+ */
+export function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number,
+): Uint8Array {
+  const hmac = createHmac(password);
+  const blocks = Math.ceil(keyLength / 32);
+  const output = new Uint8Array(blocks * 32);
+  const saltBlock = new Uint8Array(salt.length + 4);
+  saltBlock.set(salt);
+
+  for (let blockIndex = 1; blockIndex <= blocks; blockIndex++) {
+    saltBlock[salt.length] = blockIndex >>> 24;
+    saltBlock[salt.length + 1] = blockIndex >>> 16;
+    saltBlock[salt.length + 2] = blockIndex >>> 8;
+    saltBlock[salt.length + 3] = blockIndex;
+
+    let u = hmac(saltBlock);
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(u);
+      for (let j = 0; j < 32; j++) {
+        t[j] ^= u[j];
+      }
+    }
+    output.set(t, (blockIndex - 1) * 32);
+  }
+
+  return output.subarray(0, keyLength);
+}
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8Encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Decode a hex string into bytes
+ */
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,53 @@
+import type { Permission, User, UserRole } from '../types';
+
+/**
+ * Permissions granted to each role
+ *
+ * - admin: everything, on every user's records, including user and
+ *   settings management
+ * - operator: field work on their own records (register/edit clients,
+ *   write to devices)
+ * - readonly: can only browse every user's records and scan devices
+ */
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'records:create',
+    'records:edit',
+    'records:delete',
+    'records:view_all',
+    'bluetooth:write',
+    'users:manage',
+    'settings:manage',
+  ],
+  operator: ['records:create', 'records:edit', 'bluetooth:write'],
+  readonly: ['records:view_all'],
+};
+
+/**
+ * Checks whether a user's role grants a permission
+ *
+ * @param user - The logged-in user (null when logged out)
+ * @param permission - The permission to check
+ * @returns true if allowed, false otherwise
+ */
+export function hasPermission(
+  user: User | null,
+  permission: Permission,
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
+
+/**
+ * Owner whose records the user works with: null (every owner) for roles
+ * that see all records, otherwise the user's own ID
+ *
+ * @param user - The logged-in user
+ * @returns The owner ID to pass to the record queries
+ */
+export function getRecordOwnerScope(user: User): number | null {
+  return hasPermission(user, 'records:view_all') ? null : user.id;
+}
@@ -0,0 +1,26 @@
+/**
+ * Normalizes text for accent- and case-insensitive search
+ * 
+ * Example: "  Perú S.A.C. " -> "peru s.a.c."
+ * 
+ * @param text - The text to normalize
+ * @returns Lowercase text without diacritics and surrounding whitespace
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Escapes LIKE wildcards so user input is matched literally
+ * (use together with `ESCAPE '\'`)
+ * 
+ * @param text - The text to escape
+ * @returns Text with %, _ and \ escaped
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
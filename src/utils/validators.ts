@@ -1,4 +1,23 @@
-import { RUC_LENGTH, RUC_VALID_PREFIXES, RUC_FACTORS } from './constants';
+import type {
+  ParsedRuc,
+  PasswordPolicy,
+  PasswordPolicyFailure,
+  PasswordStrength,
+  RecordDetails,
+  RucType,
+} from '../types';
+import {
+  RUC_LENGTH,
+  RUC_VALID_PREFIXES,
+  RUC_FACTORS,
+  RUC_TYPE_CATEGORIES,
+  DNI_FACTORS,
+  DNI_CHECK_DIGITS,
+  PASSWORD_POLICY,
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  RECORD_STATUS_LABELS,
+} from './constants';
 
 /**
  * Validates a Peruvian RUC (Registro Único de Contribuyente)
@@ -53,6 +72,66 @@ export function validateRUC(ruc: string): boolean {
   return digits[10] === expectedDigit;
 }
 
+/**
+ * Strips the separators people type or paste inside a RUC
+ * (e.g. '20-12345678-9' or '20 123 456 789')
+ * 
+ * @param ruc - The RUC as entered
+ * @returns The RUC with spaces, dashes and dots removed
+ */
+export function normalizeRUC(ruc: string): string {
+  return ruc.replace(/[\s.-]/g, '');
+}
+
+/**
+ * Breaks a valid RUC into its parts
+ * 
+ * The prefix gives the taxpayer category: 10 for a persona natural with
+ * DNI, 15 and 17 for special cases and 20 for a persona jurídica. A
+ * prefix 10 RUC embeds the owner's DNI in digits 3 to 10.
+ * 
+ * @param ruc - The RUC to parse; separators are ignored
+ * @returns The parsed RUC, or null if it isn't valid
+ */
+export function parseRUC(ruc: string): ParsedRuc | null {
+  const normalized = normalizeRUC(ruc);
+  
+  if (!validateRUC(normalized)) {
+    return null;
+  }
+  
+  const type = normalized.slice(0, 2) as RucType;
+  const dni = type === '10' ? normalized.slice(2, 10) : null;
+  
+  return {
+    ruc: normalized,
+    type,
+    category: RUC_TYPE_CATEGORIES[type],
+    dni,
+    dniCheckDigit: dni === null ? null : getDNICheckDigit(dni),
+  };
+}
+
+/**
+ * Computes the verification digit of a Peruvian DNI, the one printed
+ * after the 8-digit number on the card
+ * 
+ * @param dni - The 8-digit DNI
+ * @returns The verification digit (0-9)
+ */
+export function getDNICheckDigit(dni: string): number {
+  const digits = dni.split('').map(Number);
+  
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    sum += digits[i] * DNI_FACTORS[i];
+  }
+  
+  const key = 11 - (sum % 11);
+  
+  return DNI_CHECK_DIGITS[key === 11 ? 0 : key];
+}
+
 /**
  * Returns a user-friendly error message for RUC validation
  * 
@@ -96,18 +175,200 @@ export function getRUCError(ruc: string): string | null {
  * @returns true if valid, false otherwise
  */
 export function validateUsername(username: string): boolean {
+  return getUsernameError(username) === null;
+}
+
+/**
+ * Returns a user-friendly error message for username validation
+ * 
+ * Rules:
+ * - Between USERNAME_MIN_LENGTH and USERNAME_MAX_LENGTH characters
+ * - Only letters, numbers and underscore
+ * 
+ * @param username - The username to validate
+ * @returns Error message or null if valid
+ */
+export function getUsernameError(username: string): string | null {
   const clean = username.trim();
-  return clean.length >= 3 && clean.length <= 50;
+  
+  if (clean.length === 0) {
+    return 'El usuario es requerido';
+  }
+  
+  if (clean.length < USERNAME_MIN_LENGTH) {
+    return `El usuario debe tener al menos ${USERNAME_MIN_LENGTH} caracteres`;
+  }
+  
+  if (clean.length > USERNAME_MAX_LENGTH) {
+    return `El usuario no puede exceder ${USERNAME_MAX_LENGTH} caracteres`;
+  }
+  
+  if (!/^[a-zA-Z0-9_]+$/.test(clean)) {
+    return 'Solo se permiten letras, números y guion bajo';
+  }
+  
+  return null;
 }
 
 /**
- * Validates password format
+ * Checks a new password against a password policy
+ * 
+ * @param password - The password to check
+ * @param username - The account's username, to reject passwords reusing it
+ * @param policy - The policy to apply (defaults to PASSWORD_POLICY)
+ * @returns Every rule the password breaks, empty if it complies
+ */
+export function checkPasswordPolicy(
+  password: string,
+  username?: string,
+  policy: PasswordPolicy = PASSWORD_POLICY,
+): PasswordPolicyFailure[] {
+  if (password.length === 0) {
+    return [{ code: 'required', message: 'La contraseña es requerida' }];
+  }
+  
+  const failures: PasswordPolicyFailure[] = [];
+  const lower = password.toLowerCase();
+  
+  if (password.length < policy.minLength) {
+    failures.push({
+      code: 'too_short',
+      message: `Debe tener al menos ${policy.minLength} caracteres`,
+    });
+  }
+  
+  if (password.length > policy.maxLength) {
+    failures.push({
+      code: 'too_long',
+      message: `No puede exceder ${policy.maxLength} caracteres`,
+    });
+  }
+  
+  if (policy.requireLetter && !/[a-zA-ZÀ-ÖØ-öø-ÿ]/.test(password)) {
+    failures.push({ code: 'missing_letter', message: 'Debe incluir una letra' });
+  }
+  
+  if (policy.requireDigit && !/\d/.test(password)) {
+    failures.push({ code: 'missing_digit', message: 'Debe incluir un número' });
+  }
+  
+  if (
+    policy.requireMixedCase &&
+    (!/[a-zß-öø-ÿ]/.test(password) || !/[A-ZÀ-ÖØ-Þ]/.test(password))
+  ) {
+    failures.push({
+      code: 'missing_mixed_case',
+      message: 'Debe combinar mayúsculas y minúsculas',
+    });
+  }
+  
+  if (policy.requireSymbol && !/[^a-zA-ZÀ-ÖØ-öø-ÿ\d]/.test(password)) {
+    failures.push({
+      code: 'missing_symbol',
+      message: 'Debe incluir un símbolo',
+    });
+  }
+  
+  if (policy.deniedPasswords.some((denied) => denied.toLowerCase() === lower)) {
+    failures.push({
+      code: 'common_password',
+      message: 'Es una contraseña demasiado común',
+    });
+  }
+  
+  const cleanUsername = username?.trim().toLowerCase() ?? '';
+  if (
+    policy.disallowUsername &&
+    cleanUsername.length >= USERNAME_MIN_LENGTH &&
+    lower.includes(cleanUsername)
+  ) {
+    failures.push({
+      code: 'contains_username',
+      message: 'No puede contener el nombre de usuario',
+    });
+  }
+  
+  return failures;
+}
+
+/**
+ * Validates password format for new passwords
  * 
  * @param password - The password to validate
+ * @param username - The account's username, if known
  * @returns true if valid, false otherwise
  */
-export function validatePassword(password: string): boolean {
-  return password.length >= 4;
+export function validatePassword(password: string, username?: string): boolean {
+  return checkPasswordPolicy(password, username).length === 0;
+}
+
+/**
+ * Returns a user-friendly error message for new password validation
+ * 
+ * @param password - The password to validate
+ * @param username - The account's username, if known
+ * @returns Error message or null if valid
+ */
+export function getPasswordError(
+  password: string,
+  username?: string,
+): string | null {
+  const failures = checkPasswordPolicy(password, username);
+  
+  if (failures.length === 0) {
+    return null;
+  }
+  
+  if (failures[0].code === 'required') {
+    return failures[0].message;
+  }
+  
+  return `La contraseña no es válida: ${failures[0].message.toLowerCase()}`;
+}
+
+/**
+ * Estimates password strength for UI feedback
+ * 
+ * The score grows with length and character variety; passwords on the
+ * policy deny list or reusing the username always score 0.
+ * 
+ * @param password - The password to rate
+ * @param username - The account's username, if known
+ * @returns Score from 0 (very weak) to 4 (very strong) and its label
+ */
+export function getPasswordStrength(
+  password: string,
+  username?: string,
+): PasswordStrength {
+  const labels = ['Muy débil', 'Débil', 'Aceptable', 'Fuerte', 'Muy fuerte'];
+  
+  const blocking = checkPasswordPolicy(password, username).some(
+    (failure) =>
+      failure.code === 'required' ||
+      failure.code === 'common_password' ||
+      failure.code === 'contains_username',
+  );
+  
+  if (blocking) {
+    return { score: 0, label: labels[0] };
+  }
+  
+  const classes = [
+    /[a-zß-öø-ÿ]/.test(password),
+    /[A-ZÀ-ÖØ-Þ]/.test(password),
+    /\d/.test(password),
+    /[^a-zA-ZÀ-ÖØ-öø-ÿ\d]/.test(password),
+  ].filter(Boolean).length;
+  
+  let points = 0;
+  if (password.length >= PASSWORD_POLICY.minLength) points += 1;
+  if (password.length >= 12) points += 1;
+  if (password.length >= 16) points += 1;
+  points += classes - 1;
+  
+  const score = Math.max(0, Math.min(4, points - 1)) as PasswordStrength['score'];
+  
+  return { score, label: labels[score] };
 }
 
 /**
@@ -144,3 +405,179 @@ export function getClientNameError(name: string): string | null {
   
   return null;
 }
+
+/**
+ * Returns a user-friendly error message for the optional fiscal address
+ * 
+ * @param address - The address to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getAddressError(address: string): string | null {
+  const clean = address.trim();
+  
+  if (clean.length > 0 && clean.length < 5) {
+    return 'La dirección debe tener al menos 5 caracteres';
+  }
+  
+  if (clean.length > 200) {
+    return 'La dirección no puede exceder 200 caracteres';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns a user-friendly error message for an optional district,
+ * province or department name
+ * 
+ * @param name - The place name to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getLocationError(name: string): string | null {
+  const clean = name.trim();
+  
+  if (clean.length === 0) {
+    return null;
+  }
+  
+  if (clean.length > 60) {
+    return 'No puede exceder 60 caracteres';
+  }
+  
+  if (!/^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ' .-]+$/.test(clean)) {
+    return 'Solo puede contener letras y espacios';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns a user-friendly error message for an optional contact phone.
+ * Accepts spaces, dashes, parentheses and a leading + for the country code.
+ * 
+ * @param phone - The phone number to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getPhoneError(phone: string): string | null {
+  const clean = phone.trim();
+  
+  if (clean.length === 0) {
+    return null;
+  }
+  
+  if (!/^\+?[\d\s()-]+$/.test(clean)) {
+    return 'Solo puede contener números, espacios, guiones y +';
+  }
+  
+  const digits = clean.replace(/\D/g, '');
+  if (digits.length < 6 || digits.length > 15) {
+    return 'El teléfono debe tener entre 6 y 15 dígitos';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns a user-friendly error message for an optional contact email
+ * 
+ * @param email - The email to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getEmailError(email: string): string | null {
+  const clean = email.trim();
+  
+  if (clean.length === 0) {
+    return null;
+  }
+  
+  if (clean.length > 254) {
+    return 'El correo no puede exceder 254 caracteres';
+  }
+  
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(clean)) {
+    return 'Ingresa un correo válido';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns a user-friendly error message for the optional notes
+ * 
+ * @param notes - The notes to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getNotesError(notes: string): string | null {
+  if (notes.trim().length > 500) {
+    return 'Las notas no pueden exceder 500 caracteres';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns a user-friendly error message for an optional 'YYYY-MM-DD' date
+ * 
+ * @param date - The date string to validate (empty is allowed)
+ * @returns Error message or null if valid or empty
+ */
+export function getDateError(date: string): string | null {
+  const clean = date.trim();
+  
+  if (clean.length === 0) {
+    return null;
+  }
+  
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(clean)) {
+    return 'Usa el formato AAAA-MM-DD';
+  }
+  
+  const [year, month, day] = clean.split('-').map(Number);
+  const parsed = new Date(year, month - 1, day);
+  
+  if (
+    parsed.getFullYear() !== year ||
+    parsed.getMonth() !== month - 1 ||
+    parsed.getDate() !== day
+  ) {
+    return 'La fecha no es válida';
+  }
+  
+  return null;
+}
+
+/**
+ * Returns the first invalid field of a record about to be saved.
+ * Details left undefined are not checked (they keep their current value).
+ * 
+ * @param input - RUC, client name and any details being written
+ * @returns The field and its error message, or null if everything is valid
+ */
+export function getRecordInputError(
+  input: { ruc: string; clientName: string } & Partial<RecordDetails>,
+): { field: keyof RecordDetails | 'ruc' | 'clientName'; message: string } | null {
+  const checks: [keyof RecordDetails | 'ruc' | 'clientName', string | null][] = [
+    ['ruc', getRUCError(input.ruc)],
+    ['clientName', getClientNameError(input.clientName)],
+    ['address', input.address === undefined ? null : getAddressError(input.address)],
+    ['district', input.district === undefined ? null : getLocationError(input.district)],
+    ['province', input.province === undefined ? null : getLocationError(input.province)],
+    ['department', input.department === undefined ? null : getLocationError(input.department)],
+    ['phone', input.phone === undefined ? null : getPhoneError(input.phone)],
+    ['email', input.email === undefined ? null : getEmailError(input.email)],
+    ['notes', input.notes === undefined ? null : getNotesError(input.notes)],
+    [
+      'status',
+      input.status === undefined || input.status in RECORD_STATUS_LABELS
+        ? null
+        : 'El estado no es válido',
+    ],
+  ];
+
+  for (const [field, message] of checks) {
+    if (message) {
+      return { field, message };
+    }
+  }
+  return null;
+}